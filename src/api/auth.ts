@@ -2,7 +2,9 @@
  * Mautic OAuth2 Authentication Module
  */
 
-import type { MauticConfig, OAuth2TokenResponse } from '../types/mautic';
+import type { MauticConfig, OAuth2TokenResponse, PkceChallenge } from '../types/mautic';
+import { MauticAuthError, MauticNetworkError, createErrorFromResponse } from './errors';
+import { createHash, randomBytes } from 'crypto';
 
 export class MauticAuth {
   private config: MauticConfig;
@@ -14,13 +16,18 @@ export class MauticAuth {
   /**
    * Generate authorization URL for OAuth2 flow
    */
-  getAuthorizationUrl(state?: string): string {
+  getAuthorizationUrl(state?: string, codeChallenge?: string): string {
+    const { clientId, callbackUrl } = this.getOAuthCredentials(true);
     const params = new URLSearchParams({
-      client_id: this.config.clientId,
+      client_id: clientId,
       grant_type: 'authorization_code',
-      redirect_uri: this.config.callbackUrl,
+      redirect_uri: callbackUrl,
       response_type: 'code',
       ...(state && { state }),
+      ...(codeChallenge && {
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      }),
     });
 
     return `${this.config.baseUrl}/oauth/v2/authorize?${params.toString()}`;
@@ -29,82 +36,123 @@ export class MauticAuth {
   /**
    * Exchange authorization code for access token
    */
-  async getAccessToken(code: string): Promise<OAuth2TokenResponse> {
+  async getAccessToken(code: string, codeVerifier?: string): Promise<OAuth2TokenResponse> {
+    const { clientId, clientSecret, callbackUrl } = this.getOAuthCredentials(true);
     const params = new URLSearchParams({
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
+      client_id: clientId,
+      client_secret: clientSecret,
       grant_type: 'authorization_code',
-      redirect_uri: this.config.callbackUrl,
+      redirect_uri: callbackUrl,
       code,
+      ...(codeVerifier && { code_verifier: codeVerifier }),
     });
 
-    const response = await fetch(`${this.config.baseUrl}/oauth/v2/token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params.toString(),
-    });
+    return this.requestToken(params, 'Failed to get access token');
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Failed to get access token: ${JSON.stringify(error)}`);
-    }
+  /**
+   * Generate a random state value for CSRF protection
+   */
+  generateState(): string {
+    return randomBytes(16).toString('hex');
+  }
 
-    return response.json();
+  /**
+   * Generate a PKCE code verifier and its S256 challenge
+   */
+  generatePkceChallenge(): PkceChallenge {
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+    return { codeVerifier, codeChallenge };
   }
 
   /**
    * Refresh the access token using refresh token
    */
   async refreshAccessToken(refreshToken: string): Promise<OAuth2TokenResponse> {
+    const { clientId, clientSecret } = this.getOAuthCredentials();
     const params = new URLSearchParams({
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
+      client_id: clientId,
+      client_secret: clientSecret,
       grant_type: 'refresh_token',
       refresh_token: refreshToken,
     });
 
-    const response = await fetch(`${this.config.baseUrl}/oauth/v2/token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params.toString(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Failed to refresh token: ${JSON.stringify(error)}`);
-    }
-
-    return response.json();
+    return this.requestToken(params, 'Failed to refresh token');
   }
 
   /**
    * Get client credentials token (for server-to-server)
    */
   async getClientCredentialsToken(): Promise<OAuth2TokenResponse> {
+    const { clientId, clientSecret } = this.getOAuthCredentials();
     const params = new URLSearchParams({
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
+      client_id: clientId,
+      client_secret: clientSecret,
       grant_type: 'client_credentials',
     });
 
-    const response = await fetch(`${this.config.baseUrl}/oauth/v2/token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params.toString(),
-    });
+    return this.requestToken(params, 'Failed to get client credentials token');
+  }
+
+  /**
+   * POST to the OAuth2 token endpoint
+   */
+  private async requestToken(
+    params: URLSearchParams,
+    failureMessage: string
+  ): Promise<OAuth2TokenResponse> {
+    const endpoint = '/oauth/v2/token';
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.config.baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params.toString(),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new MauticNetworkError(
+        `${failureMessage}: ${reason}`,
+        { method: 'POST', endpoint },
+        { cause: error }
+      );
+    }
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Failed to get client credentials token: ${JSON.stringify(error)}`);
+      const error = await createErrorFromResponse(response, {});
+      throw new MauticAuthError(
+        `${failureMessage}: ${error.message}`,
+        { method: 'POST', endpoint, status: response.status },
+        error.errors,
+        error.body
+      );
+    }
+
+    return (await response.json()) as OAuth2TokenResponse;
+  }
+
+  /**
+   * Get the OAuth2 client credentials, failing early if they are not configured
+   */
+  private getOAuthCredentials(requireCallback = false): {
+    clientId: string;
+    clientSecret: string;
+    callbackUrl: string;
+  } {
+    const { clientId, clientSecret, callbackUrl = '' } = this.config;
+
+    if (!clientId || !clientSecret) {
+      throw new MauticAuthError('OAuth2 requires clientId and clientSecret');
+    }
+    if (requireCallback && !callbackUrl) {
+      throw new MauticAuthError('OAuth2 authorization code flow requires callbackUrl');
     }
 
-    return response.json();
+    return { clientId, clientSecret, callbackUrl };
   }
 
   /**
@@ -0,0 +1,192 @@
+/**
+ * Batch Helpers
+ * Split large batch requests into chunks and map Mautic's batch responses
+ * back to per-row results
+ */
+
+import type {
+  BatchChunkResponse,
+  BatchOptions,
+  BatchResult,
+  BatchRowResult,
+  BatchRowStatus,
+  BulkMembershipResult,
+  MauticErrorDetail,
+  MembershipChangeResult,
+} from '../types/mautic';
+import { MauticApiError } from './errors';
+
+export const DEFAULT_BATCH_SIZE = 200;
+
+/**
+ * Split an array into chunks of at most `size` items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Send `items` in chunks and collect a result for every row
+ *
+ * Chunks are started together; the client's rate limiter decides how many are in flight.
+ * A chunk whose request fails outright marks all of its rows as failed.
+ */
+export async function runBatch<TInput, TEntity>(
+  items: TInput[],
+  options: BatchOptions,
+  sendChunk: (rows: TInput[]) => Promise<BatchChunkResponse<TEntity>>,
+  successStatus: (statusCode?: number) => BatchRowStatus
+): Promise<BatchResult<TInput, TEntity>> {
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_BATCH_SIZE);
+  let processed = 0;
+
+  const chunkResults = await Promise.all(
+    chunk(items, chunkSize).map(async (rows, chunkIndex) => {
+      const offset = chunkIndex * chunkSize;
+      let rowResults: BatchRowResult<TInput, TEntity>[];
+
+      try {
+        const response = await sendChunk(rows);
+        rowResults = rows.map((input, i) => {
+          const error = at(response.errors, i);
+          const entity = at(response.entities, i);
+          const statusCode = at(response.statusCodes, i);
+
+          if (error || (statusCode !== undefined && statusCode >= 400)) {
+            return {
+              index: offset + i,
+              input,
+              status: 'failed',
+              error: error || { message: `Row failed with status ${statusCode}`, code: statusCode },
+            };
+          }
+
+          return { index: offset + i, input, status: successStatus(statusCode), entity };
+        });
+      } catch (error) {
+        const detail = toErrorDetail(error);
+        rowResults = rows.map((input, i) => ({
+          index: offset + i,
+          input,
+          status: 'failed',
+          error: detail,
+        }));
+      }
+
+      processed += rows.length;
+      options.onProgress?.(processed, items.length);
+      return rowResults;
+    })
+  );
+
+  const results = chunkResults.flat();
+  const count = (status: BatchRowStatus) => results.filter(r => r.status === status).length;
+
+  return {
+    results,
+    created: count('created'),
+    updated: count('updated'),
+    deleted: count('deleted'),
+    failed: count('failed'),
+  };
+}
+
+/**
+ * Run a per-contact membership change for every contact and collect the outcome
+ *
+ * For endpoints without a batch variant. Requests are started together and
+ * throttled by the client's rate limiter; one failure does not stop the rest.
+ */
+export async function runMembershipChanges(
+  contactIds: number[],
+  options: Pick<BatchOptions, 'onProgress'>,
+  change: (contactId: number) => Promise<unknown>
+): Promise<BulkMembershipResult> {
+  let processed = 0;
+
+  const results = await Promise.all(
+    contactIds.map(async contactId => {
+      let result: MembershipChangeResult;
+      try {
+        await change(contactId);
+        result = { contactId, success: true };
+      } catch (error) {
+        result = { contactId, success: false, error: toErrorDetail(error) };
+      }
+
+      processed += 1;
+      options.onProgress?.(processed, contactIds.length);
+      return result;
+    })
+  );
+
+  const succeeded = results.filter(r => r.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
+
+/**
+ * Send membership changes in chunks to a batch endpoint and collect the outcome
+ *
+ * `sendChunk` returns the contact IDs the server reported as changed; the rest
+ * of the chunk is marked failed. A chunk whose request fails outright marks all
+ * of its contacts as failed.
+ */
+export async function runMembershipBatch(
+  contactIds: number[],
+  options: Pick<BatchOptions, 'chunkSize' | 'onProgress'>,
+  sendChunk: (contactIds: number[]) => Promise<Set<number>>
+): Promise<BulkMembershipResult> {
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_BATCH_SIZE);
+  let processed = 0;
+
+  const chunkResults = await Promise.all(
+    chunk(contactIds, chunkSize).map(async ids => {
+      let results: MembershipChangeResult[];
+      try {
+        const changed = await sendChunk(ids);
+        results = ids.map(contactId =>
+          changed.has(contactId)
+            ? { contactId, success: true }
+            : { contactId, success: false, error: { message: `Contact ${contactId} was not changed` } }
+        );
+      } catch (error) {
+        const detail = toErrorDetail(error);
+        results = ids.map(contactId => ({ contactId, success: false, error: detail }));
+      }
+
+      processed += ids.length;
+      options.onProgress?.(processed, contactIds.length);
+      return results;
+    })
+  );
+
+  const results = chunkResults.flat();
+  const succeeded = results.filter(r => r.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
+
+/**
+ * Read a row from an array or an index-keyed object
+ */
+function at<T>(collection: Record<string, T> | T[] | undefined, index: number): T | undefined {
+  return (collection as Record<string, T> | undefined)?.[index];
+}
+
+/**
+ * Reduce an error to the detail reported for a failed item
+ */
+export function toErrorDetail(error: unknown): MauticErrorDetail {
+  if (error instanceof MauticApiError) {
+    const details: Record<string, string[]> = {};
+    for (const e of error.errors) {
+      Object.assign(details, e.details || {});
+    }
+    return { message: error.message, code: error.status, details };
+  }
+
+  return { message: error instanceof Error ? error.message : String(error) };
+}
@@ -0,0 +1,446 @@
+/**
+ * Campaign Builder
+ * Fluent model of Mautic's campaign event tree, serialized to the
+ * `events` / `lists` / `forms` / `canvasSettings` payload of the campaigns API
+ *
+ * @example
+ * // Send invitation, if not opened within 3 days send a follow-up, else add 10 points
+ * const builder = new CampaignBuilder({ name: 'Summit invitation - VCs' }).fromSegments(3);
+ * const opened = builder.start(CampaignEvents.sendEmail(12)).then(CampaignEvents.opensEmail());
+ * opened.no(CampaignEvents.sendEmail(13, { name: 'Follow-up' }), { wait: { days: 3 } });
+ * opened.yes(CampaignEvents.addPoints(10));
+ * await mautic.campaigns.create(builder.build());
+ */
+
+import type {
+  CampaignCanvasConnection,
+  CampaignCanvasNode,
+  CampaignCanvasSettings,
+  CampaignDecisionPath,
+  CampaignEvent,
+  CampaignEventDefinition,
+  CampaignEventTiming,
+  CampaignIntervalUnit,
+  MauticCampaign,
+} from '../types/mautic';
+import { MauticCampaignGraphError } from './errors';
+import { formatDate } from './query-string';
+
+const INTERVAL_UNITS: Record<string, CampaignIntervalUnit> = {
+  minutes: 'i',
+  hours: 'h',
+  days: 'd',
+  months: 'm',
+  years: 'y',
+};
+
+const NODE_SPACING_X = 260;
+const NODE_SPACING_Y = 160;
+
+/**
+ * Definitions for commonly used campaign events
+ */
+export class CampaignEvents {
+  static sendEmail(
+    emailId: number,
+    options: { name?: string; emailType?: 'marketing' | 'transactional' } = {}
+  ): CampaignEventDefinition {
+    return {
+      type: 'email.send',
+      eventType: 'action',
+      name: options.name || `Send email ${emailId}`,
+      properties: { email: emailId, email_type: options.emailType || 'marketing' },
+      channel: 'email',
+      channelId: emailId,
+    };
+  }
+
+  static addPoints(points: number, name?: string): CampaignEventDefinition {
+    return {
+      type: 'lead.changepoints',
+      eventType: 'action',
+      name: name || `${points >= 0 ? 'Add' : 'Subtract'} ${Math.abs(points)} points`,
+      properties: { points },
+    };
+  }
+
+  static changeSegments(
+    segments: { add?: number[]; remove?: number[] },
+    name = 'Change segments'
+  ): CampaignEventDefinition {
+    return {
+      type: 'lead.changelist',
+      eventType: 'action',
+      name,
+      properties: { addToLists: segments.add || [], removeFromLists: segments.remove || [] },
+    };
+  }
+
+  static changeTags(tags: { add?: string[]; remove?: string[] }, name = 'Change tags'): CampaignEventDefinition {
+    return {
+      type: 'lead.changetags',
+      eventType: 'action',
+      name,
+      properties: { add_tags: tags.add || [], remove_tags: tags.remove || [] },
+    };
+  }
+
+  static opensEmail(name = 'Opens email'): CampaignEventDefinition {
+    return { type: 'email.open', eventType: 'decision', name, properties: {} };
+  }
+
+  static clicksEmail(name = 'Clicks email'): CampaignEventDefinition {
+    return { type: 'email.click', eventType: 'decision', name, properties: {} };
+  }
+
+  static submitsForm(formIds: number[], name = 'Submits form'): CampaignEventDefinition {
+    return { type: 'form.submit', eventType: 'decision', name, properties: { forms: formIds } };
+  }
+
+  static fieldValue(
+    field: string,
+    operator: string,
+    value: string | number,
+    name = `${field} ${operator} ${value}`
+  ): CampaignEventDefinition {
+    return { type: 'lead.field_value', eventType: 'condition', name, properties: { field, operator, value } };
+  }
+}
+
+type AddEvent = (
+  definition: CampaignEventDefinition,
+  timing: CampaignEventTiming,
+  parent: CampaignEventNode | null,
+  path: CampaignDecisionPath | null
+) => CampaignEventNode;
+
+/**
+ * An event in the campaign tree; add children with then() or yes()/no()
+ */
+export class CampaignEventNode {
+  constructor(
+    readonly id: string,
+    readonly definition: CampaignEventDefinition,
+    readonly timing: CampaignEventTiming,
+    readonly parent: CampaignEventNode | null,
+    readonly decisionPath: CampaignDecisionPath | null,
+    private add: AddEvent
+  ) {}
+
+  /**
+   * Run an event after this action
+   */
+  then(definition: CampaignEventDefinition, timing: CampaignEventTiming = {}): CampaignEventNode {
+    if (this.definition.eventType !== 'action') {
+      throw new MauticCampaignGraphError([
+        `"${this.definition.name}" is a ${this.definition.eventType}; use yes() or no() to add events after it`,
+      ]);
+    }
+    return this.add(definition, timing, this, null);
+  }
+
+  /**
+   * Run an event when this decision or condition is met
+   */
+  yes(definition: CampaignEventDefinition, timing: CampaignEventTiming = {}): CampaignEventNode {
+    return this.branch('yes', definition, timing);
+  }
+
+  /**
+   * Run an event when this decision or condition is not met
+   *
+   * For decisions, the timing is how long to wait for the contact to act.
+   */
+  no(definition: CampaignEventDefinition, timing: CampaignEventTiming = {}): CampaignEventNode {
+    return this.branch('no', definition, timing);
+  }
+
+  private branch(
+    path: CampaignDecisionPath,
+    definition: CampaignEventDefinition,
+    timing: CampaignEventTiming
+  ): CampaignEventNode {
+    if (this.definition.eventType === 'action') {
+      throw new MauticCampaignGraphError([
+        `"${this.definition.name}" is an action; use then() to add events after it`,
+      ]);
+    }
+    return this.add(definition, timing, this, path);
+  }
+}
+
+export class CampaignBuilder {
+  private nodes: CampaignEventNode[] = [];
+  private segmentIds: number[] = [];
+  private formIds: number[] = [];
+
+  constructor(private campaign: Omit<MauticCampaign, 'events' | 'lists' | 'forms' | 'canvasSettings'>) {}
+
+  /**
+   * Add contacts from these segments to the campaign
+   */
+  fromSegments(...segmentIds: number[]): this {
+    this.segmentIds.push(...segmentIds);
+    return this;
+  }
+
+  /**
+   * Add contacts who submit these forms to the campaign
+   */
+  fromForms(...formIds: number[]): this {
+    this.formIds.push(...formIds);
+    return this;
+  }
+
+  /**
+   * Add a top-level event, run as soon as a contact enters the campaign
+   */
+  start(definition: CampaignEventDefinition, timing: CampaignEventTiming = {}): CampaignEventNode {
+    return this.addEvent(definition, timing, null, null);
+  }
+
+  /**
+   * Validate the event graph and serialize it for MauticCampaigns.create()
+   */
+  build(): MauticCampaign {
+    const events = this.nodes.map((node, index) => toCampaignEvent(node, index + 1));
+    const campaign: MauticCampaign = {
+      ...this.campaign,
+      events,
+      lists: this.segmentIds.map(id => ({ id })),
+      forms: this.formIds.map(id => ({ id })),
+      canvasSettings: buildCanvas(events, this.segmentIds.length > 0, this.formIds.length > 0),
+    };
+
+    const problems = validateCampaign(campaign);
+    if (problems.length > 0) {
+      throw new MauticCampaignGraphError(problems);
+    }
+    return campaign;
+  }
+
+  private addEvent: AddEvent = (definition, timing, parent, path) => {
+    const node = new CampaignEventNode(
+      `new${this.nodes.length + 1}`,
+      definition,
+      timing,
+      parent,
+      path,
+      this.addEvent
+    );
+    this.nodes.push(node);
+    return node;
+  };
+}
+
+/**
+ * Check a campaign's event graph and return a list of problems (empty if valid)
+ *
+ * Works on builder output as well as campaigns fetched from or written for the API.
+ */
+export function validateCampaign(
+  campaign: Pick<MauticCampaign, 'events' | 'lists' | 'forms' | 'canvasSettings'>
+): string[] {
+  const problems: string[] = [];
+  const events = campaign.events || [];
+  const byId = new Map<string, CampaignEvent>();
+
+  if (events.length > 0 && !campaign.lists?.length && !campaign.forms?.length) {
+    problems.push('Campaign has no source segment or form');
+  }
+
+  for (const event of events) {
+    const id = String(event.id);
+    if (byId.has(id)) {
+      problems.push(`Duplicate event id ${id}`);
+    }
+    byId.set(id, event);
+  }
+
+  for (const event of events) {
+    const label = `Event "${event.name}" (${event.id})`;
+    const parentId = getParentId(event);
+    const parent = parentId === null ? undefined : byId.get(parentId);
+
+    if (parentId !== null && !parent) {
+      problems.push(`${label} has unknown parent ${parentId}`);
+    } else if (parent && hasParentCycle(event, byId)) {
+      problems.push(`${label} is part of a parent cycle`);
+    } else if (parent && parent.eventType === 'action' && event.decisionPath) {
+      problems.push(`${label} follows action "${parent.name}" and cannot have a decision path`);
+    } else if (parent && parent.eventType !== 'action' && !event.decisionPath) {
+      problems.push(`${label} follows ${parent.eventType} "${parent.name}" and needs a yes or no path`);
+    } else if (!parent && event.decisionPath) {
+      problems.push(`${label} has a decision path but no parent`);
+    }
+
+    if (parent?.eventType === 'decision' && event.eventType === 'decision') {
+      problems.push(`${label} is a decision and cannot directly follow decision "${parent.name}"`);
+    }
+
+    problems.push(...validateTiming(event, label));
+  }
+
+  if (campaign.canvasSettings) {
+    problems.push(...validateCanvas(events, campaign.canvasSettings));
+  }
+
+  return problems;
+}
+
+function toCampaignEvent(node: CampaignEventNode, order: number): CampaignEvent {
+  const { definition, timing } = node;
+  const event: CampaignEvent = {
+    id: node.id,
+    name: definition.name,
+    description: definition.description,
+    type: definition.type,
+    eventType: definition.eventType,
+    order,
+    properties: definition.properties || {},
+    triggerMode: definition.eventType === 'decision' ? null : 'immediate',
+    triggerInterval: null,
+    triggerIntervalUnit: null,
+    triggerDate: null,
+    parent: node.parent ? node.parent.id : null,
+    decisionPath: node.decisionPath,
+    channel: definition.channel,
+    channelId: definition.channelId,
+  };
+
+  if (timing.at !== undefined) {
+    event.triggerMode = 'date';
+    event.triggerDate = timing.at instanceof Date ? formatDate(timing.at) : timing.at;
+  } else if (timing.wait) {
+    const units = Object.entries(timing.wait).filter(([, amount]) => amount !== undefined);
+    if (units.length !== 1) {
+      throw new MauticCampaignGraphError([
+        `Event "${definition.name}" must wait in exactly one unit, got ${units.map(([u]) => u).join(', ') || 'none'}`,
+      ]);
+    }
+    const [unit, amount] = units[0];
+    event.triggerMode = 'interval';
+    event.triggerInterval = amount;
+    event.triggerIntervalUnit = INTERVAL_UNITS[unit];
+  }
+
+  return event;
+}
+
+/**
+ * Lay out events top-down by depth and connect them like the Mautic canvas does
+ */
+function buildCanvas(events: CampaignEvent[], hasSegments: boolean, hasForms: boolean): CampaignCanvasSettings {
+  const nodes: CampaignCanvasNode[] = [];
+  const connections: CampaignCanvasConnection[] = [];
+  const sources = [...(hasSegments ? ['lists'] : []), ...(hasForms ? ['forms'] : [])];
+
+  sources.forEach((source, index) => {
+    nodes.push({ id: source, positionX: index * NODE_SPACING_X, positionY: 0 });
+  });
+
+  const depth = new Map<string, number>();
+  const perDepth = new Map<number, number>();
+  for (const event of events) {
+    const parentId = getParentId(event);
+    const level = parentId === null ? 1 : (depth.get(parentId) ?? 0) + 1;
+    const column = perDepth.get(level) ?? 0;
+    depth.set(String(event.id), level);
+    perDepth.set(level, column + 1);
+    nodes.push({ id: String(event.id), positionX: column * NODE_SPACING_X, positionY: level * NODE_SPACING_Y });
+
+    if (parentId === null) {
+      for (const source of sources) {
+        connections.push({
+          sourceId: source,
+          targetId: String(event.id),
+          anchors: { source: 'leadsource', target: 'top' },
+        });
+      }
+    } else {
+      connections.push({
+        sourceId: parentId,
+        targetId: String(event.id),
+        anchors: { source: event.decisionPath || 'bottom', target: 'top' },
+      });
+    }
+  }
+
+  return { nodes, connections };
+}
+
+function validateTiming(event: CampaignEvent, label: string): string[] {
+  if (event.eventType === 'decision') {
+    return event.triggerMode ? [`${label} is a decision and cannot be scheduled`] : [];
+  }
+
+  switch (event.triggerMode) {
+    case 'immediate':
+      return [];
+    case 'interval':
+      if (!event.triggerInterval || event.triggerInterval < 0) {
+        return [`${label} needs a positive wait interval`];
+      }
+      return Object.values(INTERVAL_UNITS).includes(event.triggerIntervalUnit as CampaignIntervalUnit)
+        ? []
+        : [`${label} has unknown interval unit ${event.triggerIntervalUnit}`];
+    case 'date':
+      return event.triggerDate ? [] : [`${label} is scheduled by date but has no date`];
+    default:
+      return [`${label} needs a trigger mode`];
+  }
+}
+
+/**
+ * Every event must be connected on the canvas from its parent, or from a source
+ * if it is a top-level event; anything else shows up as an orphan in Mautic
+ */
+function validateCanvas(events: CampaignEvent[], canvas: CampaignCanvasSettings): string[] {
+  const problems: string[] = [];
+  const nodeIds = new Set(canvas.nodes.map(node => String(node.id)));
+
+  for (const connection of canvas.connections) {
+    if (!nodeIds.has(String(connection.sourceId)) || !nodeIds.has(String(connection.targetId))) {
+      problems.push(`Canvas connection ${connection.sourceId} -> ${connection.targetId} references a missing node`);
+    }
+  }
+
+  for (const event of events) {
+    const id = String(event.id);
+    const parentId = getParentId(event);
+    const connected = canvas.connections.some(
+      c =>
+        String(c.targetId) === id &&
+        (parentId === null
+          ? c.sourceId === 'lists' || c.sourceId === 'forms'
+          : String(c.sourceId) === parentId && c.anchors.source === (event.decisionPath || 'bottom'))
+    );
+
+    if (!nodeIds.has(id) || !connected) {
+      problems.push(`Event "${event.name}" (${id}) is orphaned on the canvas`);
+    }
+  }
+
+  return problems;
+}
+
+function getParentId(event: CampaignEvent): string | null {
+  const parent = event.parent;
+  if (parent === null || parent === undefined || parent === '') return null;
+  return String(typeof parent === 'object' ? parent.id : parent);
+}
+
+function hasParentCycle(event: CampaignEvent, byId: Map<string, CampaignEvent>): boolean {
+  const seen = new Set<string>([String(event.id)]);
+  let parentId = getParentId(event);
+
+  while (parentId !== null) {
+    if (seen.has(parentId)) return true;
+    seen.add(parentId);
+    const parent = byId.get(parentId);
+    if (!parent) return false;
+    parentId = getParentId(parent);
+  }
+
+  return false;
+}
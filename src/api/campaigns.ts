@@ -2,8 +2,20 @@
  * Mautic Campaigns API
  */
 
-import type { MauticCampaign, MauticApiResponse } from '../types/mautic';
+import type {
+  BatchOptions,
+  BulkMembershipResult,
+  CampaignContactListParams,
+  CampaignContactPosition,
+  CampaignEventLogEntry,
+  CampaignMembership,
+  MauticCampaign,
+  ListParams,
+  PaginationOptions,
+} from '../types/mautic';
 import { MauticClient } from './client';
+import { runMembershipChanges } from './batch';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
 
 export class MauticCampaigns {
   constructor(private client: MauticClient) {}
@@ -19,21 +31,45 @@ export class MauticCampaigns {
   /**
    * List campaigns
    */
-  async list(params?: {
-    start?: number;
-    limit?: number;
-    search?: string;
-  }): Promise<{ total: number; campaigns: Record<string, MauticCampaign> }> {
+  async list(
+    params?: ListParams
+  ): Promise<{ total: number; campaigns: MauticCampaign[] }> {
     const response = await this.client.get<Record<string, MauticCampaign>>(
       '/campaigns',
       params
     );
     return {
-      total: response.total as number,
-      campaigns: response.campaigns as Record<string, MauticCampaign>,
+      total: Number(response.total),
+      campaigns: toOrderedArray(response.campaigns, resolveListOrder(params)),
     };
   }
 
+  /**
+   * Iterate over all campaigns, page by page
+   */
+  iterate(
+    params: ListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<MauticCampaign> {
+    return paginate(
+      async (start, limit) => {
+        const { total, campaigns } = await this.list({ ...params, start, limit });
+        return { total, items: campaigns };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all campaigns
+   */
+  async listAll(
+    params: ListParams = {},
+    options: PaginationOptions = {}
+  ): Promise<MauticCampaign[]> {
+    return collect(this.iterate(params, options));
+  }
+
   /**
    * Create a new campaign
    */
@@ -66,20 +102,142 @@ export class MauticCampaigns {
   /**
    * Add a contact to a campaign
    */
-  async addContact(campaignId: number, contactId: number): Promise<any> {
+  async addContact(campaignId: number, contactId: number): Promise<{ success: boolean }> {
     const response = await this.client.post<any>(
-      `/campaigns/${campaignId}/contact/${contactId}/add`
+      `/campaigns/${campaignId}/contact/${contactId}/add`,
+      undefined,
+      { idempotent: true }
     );
-    return response;
+    return { success: Boolean(response.success) };
   }
 
   /**
    * Remove a contact from a campaign
    */
-  async removeContact(campaignId: number, contactId: number): Promise<any> {
+  async removeContact(campaignId: number, contactId: number): Promise<{ success: boolean }> {
     const response = await this.client.post<any>(
-      `/campaigns/${campaignId}/contact/${contactId}/remove`
+      `/campaigns/${campaignId}/contact/${contactId}/remove`,
+      undefined,
+      { idempotent: true }
+    );
+    return { success: Boolean(response.success) };
+  }
+
+  /**
+   * Add many contacts to a campaign, reporting the outcome per contact
+   */
+  async addContacts(
+    campaignId: number,
+    contactIds: number[],
+    options: Pick<BatchOptions, 'onProgress'> = {}
+  ): Promise<BulkMembershipResult> {
+    return runMembershipChanges(contactIds, options, contactId =>
+      this.addContact(campaignId, contactId)
     );
-    return response;
   }
+
+  /**
+   * Remove many contacts from a campaign, reporting the outcome per contact
+   */
+  async removeContacts(
+    campaignId: number,
+    contactIds: number[],
+    options: Pick<BatchOptions, 'onProgress'> = {}
+  ): Promise<BulkMembershipResult> {
+    return runMembershipChanges(contactIds, options, contactId =>
+      this.removeContact(campaignId, contactId)
+    );
+  }
+
+  /**
+   * List a campaign's contacts
+   */
+  async listContacts(
+    campaignId: number,
+    params?: CampaignContactListParams
+  ): Promise<{ total: number; contacts: CampaignMembership[] }> {
+    const response = await this.client.get<any>(`/campaigns/${campaignId}/contacts`, params);
+    return {
+      total: Number(response.total),
+      contacts: toOrderedArray<Record<string, any>>(response.contacts).map(toMembership),
+    };
+  }
+
+  /**
+   * Iterate over all contacts of a campaign, page by page
+   */
+  iterateContacts(
+    campaignId: number,
+    params: CampaignContactListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<CampaignMembership> {
+    return paginate(
+      async (start, limit) => {
+        const { total, contacts } = await this.listContacts(campaignId, { ...params, start, limit });
+        return { total, items: contacts };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Read where a contact is in a campaign: its event log, the last executed
+   * event and the events scheduled next
+   */
+  async getContactPosition(campaignId: number, contactId: number): Promise<CampaignContactPosition> {
+    const response = await this.client.get<any>(
+      `/campaigns/${campaignId}/events/contact/${contactId}`
+    );
+    const log = toOrderedArray<CampaignEventLogEntry>(response.events).sort((a, b) =>
+      String(a.dateTriggered || a.triggerDate || '').localeCompare(
+        String(b.dateTriggered || b.triggerDate || '')
+      )
+    );
+    const executed = log.filter(entry => !entry.isScheduled && entry.dateTriggered);
+
+    return {
+      campaignId,
+      contactId,
+      log,
+      lastEvent: executed[executed.length - 1] || null,
+      scheduled: log.filter(entry => entry.isScheduled),
+    };
+  }
+
+  /**
+   * Copy a campaign with its events and sources
+   *
+   * Pass `changes` to re-target the copy, e.g. a new name and source segments.
+   */
+  async clone(id: number, changes?: Partial<MauticCampaign>): Promise<MauticCampaign> {
+    const response = await this.client.post<MauticCampaign>(`/campaigns/clone/${id}`);
+    const copy = response.campaign as MauticCampaign;
+    return changes ? this.update(copy.id!, changes) : copy;
+  }
+
+  /**
+   * Publish a campaign so it starts processing contacts
+   */
+  async publish(id: number): Promise<MauticCampaign> {
+    return this.update(id, { isPublished: true });
+  }
+
+  /**
+   * Unpublish a campaign, pausing all of its events
+   */
+  async unpublish(id: number): Promise<MauticCampaign> {
+    return this.update(id, { isPublished: false });
+  }
+}
+
+function toMembership(row: Record<string, any>): CampaignMembership {
+  return {
+    contactId: Number(row.lead_id),
+    campaignId: Number(row.campaign_id),
+    dateAdded: row.date_added,
+    manuallyAdded: Boolean(Number(row.manually_added)),
+    manuallyRemoved: Boolean(Number(row.manually_removed)),
+    dateLastExited: row.date_last_exited ?? null,
+    rotation: Number(row.rotation ?? 1),
+  };
 }
@@ -2,22 +2,65 @@
  * Mautic API Client
  */
 
-import type { MauticConfig, MauticApiResponse, MauticError } from '../types/mautic';
+import type {
+  MauticConfig,
+  MauticApiResponse,
+  RequestOptions,
+  QueueStats,
+  OAuth2TokenResponse,
+  StoredTokens,
+} from '../types/mautic';
 import { MauticAuth } from './auth';
+import { RetryPolicy } from './retry';
+import { RateLimiter } from './rate-limiter';
+import { serializeQuery } from './query-string';
+import {
+  MauticApiError,
+  MauticAuthError,
+  MauticNetworkError,
+  createErrorFromResponse,
+} from './errors';
 
 export class MauticClient {
   private config: MauticConfig;
   private auth: MauticAuth;
+  private retryPolicy: RetryPolicy;
+  private rateLimiter: RateLimiter;
+  private tokenPromise?: Promise<string>;
+  private tokensLoaded?: Promise<void>;
 
   constructor(config: MauticConfig) {
     this.config = config;
     this.auth = new MauticAuth(config);
+    this.retryPolicy = new RetryPolicy(config.retry);
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+  }
+
+  /**
+   * Build the Authorization header for the configured auth method
+   */
+  private async getAuthorizationHeader(): Promise<string> {
+    switch (this.config.authMethod) {
+      case 'basic': {
+        const credentials = `${this.config.username}:${this.config.password}`;
+        return `Basic ${Buffer.from(credentials).toString('base64')}`;
+      }
+      case 'bearer':
+        if (!this.config.accessToken) {
+          throw new MauticAuthError('Bearer auth requires an accessToken');
+        }
+        return `Bearer ${this.config.accessToken}`;
+      default:
+        return `Bearer ${await this.ensureValidToken()}`;
+    }
   }
 
   /**
    * Ensure we have a valid access token
    */
   private async ensureValidToken(): Promise<string> {
+    await this.loadStoredTokens();
+
     // If we have a valid token, use it
     if (
       this.config.accessToken &&
@@ -26,28 +69,80 @@ export class MauticClient {
       return this.config.accessToken;
     }
 
-    // If we have a refresh token, refresh the access token
-    if (this.config.refreshToken) {
-      const tokenResponse = await this.auth.refreshAccessToken(
-        this.config.refreshToken
-      );
-      this.config.accessToken = tokenResponse.access_token;
-      this.config.tokenExpiresAt = this.auth.calculateExpiresAt(
-        tokenResponse.expires_in
+    // Collapse concurrent refreshes so a rotated refresh token is only used once
+    if (!this.tokenPromise) {
+      this.tokenPromise = this.obtainToken().finally(() => {
+        this.tokenPromise = undefined;
+      });
+    }
+
+    return this.tokenPromise;
+  }
+
+  /**
+   * Load persisted tokens from the token store (once per client, retried
+   * after a failed load)
+   */
+  private loadStoredTokens(): Promise<void> {
+    if (!this.tokensLoaded) {
+      this.tokensLoaded = (async () => {
+        const stored = await this.config.tokenStore?.load();
+        if (stored) {
+          this.config.accessToken = stored.accessToken;
+          this.config.refreshToken = stored.refreshToken ?? this.config.refreshToken;
+          this.config.tokenExpiresAt = stored.tokenExpiresAt;
+        }
+      })();
+      this.tokensLoaded.catch(() => {
+        this.tokensLoaded = undefined;
+      });
+    }
+
+    return this.tokensLoaded;
+  }
+
+  /**
+   * Fetch a new access token via refresh token or client credentials
+   */
+  private async obtainToken(): Promise<string> {
+    // The authorization code flow can only continue with a refresh token
+    if (this.config.authMethod === 'oauth2-auth-code' && !this.config.refreshToken) {
+      throw new MauticAuthError(
+        'No valid access or refresh token, run `bun run mautic login` first'
       );
-      if (tokenResponse.refresh_token) {
-        this.config.refreshToken = tokenResponse.refresh_token;
-      }
-      return this.config.accessToken;
     }
 
-    // Otherwise, use client credentials
-    const tokenResponse = await this.auth.getClientCredentialsToken();
+    // If we have a refresh token, refresh the access token, otherwise use client credentials
+    const tokenResponse = this.config.refreshToken
+      ? await this.auth.refreshAccessToken(this.config.refreshToken)
+      : await this.auth.getClientCredentialsToken();
+
+    await this.setTokens(tokenResponse);
+    return tokenResponse.access_token;
+  }
+
+  /**
+   * Apply a token response, persist it and notify listeners
+   */
+  async setTokens(tokenResponse: OAuth2TokenResponse): Promise<StoredTokens> {
     this.config.accessToken = tokenResponse.access_token;
     this.config.tokenExpiresAt = this.auth.calculateExpiresAt(
       tokenResponse.expires_in
     );
-    return this.config.accessToken;
+    if (tokenResponse.refresh_token) {
+      this.config.refreshToken = tokenResponse.refresh_token;
+    }
+
+    const tokens: StoredTokens = {
+      accessToken: this.config.accessToken,
+      refreshToken: this.config.refreshToken,
+      tokenExpiresAt: this.config.tokenExpiresAt,
+    };
+
+    await this.config.tokenStore?.save(tokens);
+    await this.config.onTokenRefreshed?.(tokens);
+
+    return tokens;
   }
 
   /**
@@ -56,87 +151,161 @@ export class MauticClient {
   private async request<T>(
     method: string,
     endpoint: string,
-    data?: any
+    data?: any,
+    options: RequestOptions = {}
   ): Promise<MauticApiResponse<T>> {
-    const accessToken = await this.ensureValidToken();
-
-    const url = `${this.config.baseUrl}/api${endpoint}`;
+    let url = `${this.config.baseUrl}/api${endpoint}`;
     const headers: Record<string, string> = {
-      Authorization: `Bearer ${accessToken}`,
+      Authorization: await this.getAuthorizationHeader(),
     };
 
-    const options: RequestInit = {
+    const init: RequestInit = {
       method,
       headers,
     };
 
     if (data) {
       if (method === 'GET') {
-        const params = new URLSearchParams(data);
-        const urlWithParams = `${url}?${params.toString()}`;
-        const response = await fetch(urlWithParams, options);
-        return this.handleResponse<T>(response);
+        const query = serializeQuery(data);
+        url = query ? `${url}?${query}` : url;
       } else {
         headers['Content-Type'] = 'application/json';
-        options.body = JSON.stringify(data);
+        init.body = JSON.stringify(data);
       }
     }
 
-    const response = await fetch(url, options);
-    return this.handleResponse<T>(response);
+    const response = await this.fetchWithRetry(method, endpoint, url, init, options.idempotent);
+    return this.handleResponse<T>(response, method, endpoint);
   }
 
   /**
-   * Handle API response
+   * Send a request, retrying transient failures according to the retry policy
    */
-  private async handleResponse<T>(response: Response): Promise<MauticApiResponse<T>> {
-    const data = await response.json();
+  private async fetchWithRetry(
+    method: string,
+    endpoint: string,
+    url: string,
+    init: RequestInit,
+    idempotent?: boolean
+  ): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
 
+      try {
+        response = await this.rateLimiter.schedule(() => fetch(url, init));
+      } catch (error) {
+        if (!this.retryPolicy.shouldRetryNetworkError(method, attempt, idempotent)) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new MauticNetworkError(
+            `${method} ${endpoint} failed: ${reason}`,
+            { method, endpoint },
+            { cause: error }
+          );
+        }
+        await sleep(this.retryPolicy.getBackoffDelay(attempt));
+        continue;
+      }
+
+      if (
+        response.ok ||
+        !this.retryPolicy.shouldRetryStatus(method, response.status, attempt, idempotent)
+      ) {
+        return response;
+      }
+
+      const delay = this.retryPolicy.getDelay(attempt, response.headers.get('Retry-After'));
+      if (delay === null) {
+        return response;
+      }
+
+      // Discard the failed response body so the connection can be reused
+      await response.body?.cancel();
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Handle API response
+   */
+  private async handleResponse<T>(
+    response: Response,
+    method: string,
+    endpoint: string
+  ): Promise<MauticApiResponse<T>> {
     if (!response.ok) {
-      const error: MauticError = {
-        code: response.status,
-        message: data.errors?.[0]?.message || 'Unknown error',
-        details: data.errors,
-      };
-      throw error;
+      throw await createErrorFromResponse(response, { method, endpoint });
     }
 
-    return data;
+    // Mautic answers with its HTML login page when the API is disabled
+    const text = await response.text();
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      throw new MauticApiError(
+        `${method} ${endpoint} returned a non-JSON response`,
+        { method, endpoint, status: response.status },
+        [],
+        text
+      );
+    }
   }
 
   /**
    * GET request
    */
-  async get<T>(endpoint: string, params?: any): Promise<MauticApiResponse<T>> {
-    return this.request<T>('GET', endpoint, params);
+  async get<T>(
+    endpoint: string,
+    params?: any,
+    options?: RequestOptions
+  ): Promise<MauticApiResponse<T>> {
+    return this.request<T>('GET', endpoint, params, options);
   }
 
   /**
    * POST request
    */
-  async post<T>(endpoint: string, data?: any): Promise<MauticApiResponse<T>> {
-    return this.request<T>('POST', endpoint, data);
+  async post<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<MauticApiResponse<T>> {
+    return this.request<T>('POST', endpoint, data, options);
   }
 
   /**
    * PATCH request
    */
-  async patch<T>(endpoint: string, data?: any): Promise<MauticApiResponse<T>> {
-    return this.request<T>('PATCH', endpoint, data);
+  async patch<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<MauticApiResponse<T>> {
+    return this.request<T>('PATCH', endpoint, data, options);
   }
 
   /**
    * PUT request
    */
-  async put<T>(endpoint: string, data?: any): Promise<MauticApiResponse<T>> {
-    return this.request<T>('PUT', endpoint, data);
+  async put<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<MauticApiResponse<T>> {
+    return this.request<T>('PUT', endpoint, data, options);
   }
 
   /**
    * DELETE request
    */
-  async delete<T>(endpoint: string): Promise<MauticApiResponse<T>> {
-    return this.request<T>('DELETE', endpoint);
+  async delete<T>(endpoint: string, options?: RequestOptions): Promise<MauticApiResponse<T>> {
+    return this.request<T>('DELETE', endpoint, undefined, options);
+  }
+
+  /**
+   * Get request queue depth (useful for progress reporting in long jobs)
+   */
+  getQueueStats(): QueueStats {
+    return this.rateLimiter.getStats();
   }
 
   /**
@@ -151,6 +320,12 @@ export class MauticClient {
    */
   updateConfig(updates: Partial<MauticConfig>): void {
     this.config = { ...this.config, ...updates };
+    if (updates.retry) {
+      this.retryPolicy = new RetryPolicy(this.config.retry);
+    }
+    if (updates.rateLimit) {
+      this.rateLimiter = new RateLimiter(this.config.rateLimit);
+    }
   }
 
   /**
@@ -160,3 +335,7 @@ export class MauticClient {
     return { ...this.config };
   }
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,206 @@
+/**
+ * Mautic Companies API
+ */
+
+import type {
+  CompanyCreateParams,
+  CompanyListParams,
+  CompanyLinkFailure,
+  CompanyLinkOptions,
+  CompanyLinkResult,
+  CompanySyncResult,
+  MauticCompany,
+  MauticContact,
+  PaginationOptions,
+} from '../types/mautic';
+import { toErrorDetail } from './batch';
+import { MauticClient } from './client';
+import { getFieldValue } from './contacts';
+import { Where } from './filters';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+
+export class MauticCompanies {
+  constructor(private client: MauticClient) {}
+
+  /**
+   * Get a single company by ID
+   */
+  async get(id: number): Promise<MauticCompany> {
+    const response = await this.client.get<MauticCompany>(`/companies/${id}`);
+    return response.company as MauticCompany;
+  }
+
+  /**
+   * List companies
+   */
+  async list(
+    params?: CompanyListParams
+  ): Promise<{ total: number; companies: MauticCompany[] }> {
+    const response = await this.client.get<Record<string, MauticCompany>>(
+      '/companies',
+      params
+    );
+    return {
+      total: Number(response.total),
+      companies: toOrderedArray(response.companies, resolveListOrder(params)),
+    };
+  }
+
+  /**
+   * Iterate over all companies, page by page
+   */
+  iterate(
+    params: CompanyListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<MauticCompany> {
+    return paginate(
+      async (start, limit) => {
+        const { total, companies } = await this.list({ ...params, start, limit });
+        return { total, items: companies };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all companies
+   */
+  async listAll(
+    params: CompanyListParams = {},
+    options: PaginationOptions = {}
+  ): Promise<MauticCompany[]> {
+    return collect(this.iterate(params, options));
+  }
+
+  /**
+   * Create a new company
+   */
+  async create(data: CompanyCreateParams): Promise<MauticCompany> {
+    const response = await this.client.post<MauticCompany>('/companies/new', data);
+    return response.company as MauticCompany;
+  }
+
+  /**
+   * Update a company
+   */
+  async update(id: number, data: Partial<CompanyCreateParams>): Promise<MauticCompany> {
+    const response = await this.client.patch<MauticCompany>(
+      `/companies/${id}/edit`,
+      data
+    );
+    return response.company as MauticCompany;
+  }
+
+  /**
+   * Delete a company
+   */
+  async delete(id: number): Promise<{ id: number }> {
+    const response = await this.client.delete<{ id: number }>(`/companies/${id}/delete`);
+    return response.company as { id: number };
+  }
+
+  /**
+   * Link a contact to a company
+   */
+  async addContact(companyId: number, contactId: number): Promise<{ success: boolean }> {
+    const response = await this.client.post<any>(
+      `/companies/${companyId}/contact/${contactId}/add`,
+      undefined,
+      { idempotent: true }
+    );
+    return { success: Boolean(response.success) };
+  }
+
+  /**
+   * Unlink a contact from a company
+   */
+  async removeContact(companyId: number, contactId: number): Promise<{ success: boolean }> {
+    const response = await this.client.post<any>(
+      `/companies/${companyId}/contact/${contactId}/remove`,
+      undefined,
+      { idempotent: true }
+    );
+    return { success: Boolean(response.success) };
+  }
+
+  /**
+   * Find a company by name, ignoring case and whitespace
+   *
+   * Candidates are fetched with a LIKE pattern that allows any whitespace
+   * between the words, then compared by their normalized name.
+   */
+  async findByName(name: string): Promise<MauticCompany | null> {
+    const wanted = normalizeCompanyName(name);
+    const pattern = `%${wanted.split(' ').map(escapeLike).join('%')}%`;
+
+    for await (const company of this.iterate({ where: [Where.like('companyname', pattern)] })) {
+      if (normalizeCompanyName(String(getFieldValue(company, 'companyname') ?? '')) === wanted) {
+        return company;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Make sure a company exists for each contact's organization and link them
+   *
+   * Contacts are grouped by organization name (case and whitespace insensitive),
+   * so each company is looked up or created only once. A failing organization
+   * is reported in `failed` and does not stop the others.
+   */
+  async linkContactsToCompanies(
+    contacts: MauticContact[],
+    options: CompanyLinkOptions = {}
+  ): Promise<CompanySyncResult> {
+    const field = options.field || 'company';
+    const groups = new Map<string, { organization: string; contactIds: number[] }>();
+    const skippedContactIds: number[] = [];
+
+    for (const contact of contacts) {
+      const organization = String(getFieldValue(contact, field) ?? '').trim();
+      if (!organization || contact.id === undefined) {
+        if (contact.id !== undefined) skippedContactIds.push(contact.id);
+        continue;
+      }
+
+      const key = normalizeCompanyName(organization);
+      const group = groups.get(key) || { organization, contactIds: [] };
+      group.contactIds.push(contact.id);
+      groups.set(key, group);
+    }
+
+    const outcomes = await Promise.all(
+      [...groups.values()].map(
+        async ({ organization, contactIds }): Promise<CompanyLinkResult | CompanyLinkFailure> => {
+          try {
+            let company = await this.findByName(organization);
+            const created = !company;
+            if (!company) {
+              company = await this.create({ ...options.defaults, companyname: organization });
+            }
+
+            for (const contactId of contactIds) {
+              await this.addContact(company.id!, contactId);
+            }
+
+            return { organization, company, created, contactIds };
+          } catch (error) {
+            return { organization, contactIds, error: toErrorDetail(error) };
+          }
+        }
+      )
+    );
+
+    const companies = outcomes.filter((o): o is CompanyLinkResult => !('error' in o));
+    const failed = outcomes.filter((o): o is CompanyLinkFailure => 'error' in o);
+    return { companies, failed, skippedContactIds };
+  }
+}
+
+function normalizeCompanyName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
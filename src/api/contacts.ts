@@ -3,11 +3,37 @@
  */
 
 import type {
+  BatchOptions,
+  BatchResult,
+  MauticCompany,
   MauticContact,
-  MauticApiResponse,
+  MauticContactField,
+  ContactActivity,
+  ContactActivityEvent,
+  ContactActivityParams,
+  ContactCompanyLink,
   ContactCreateParams,
+  ContactDevice,
+  ContactListParams,
+  ContactEditParams,
+  ContactNote,
+  ContactNoteParams,
+  ContactOwner,
+  ContactSegmentMembership,
+  ContactUpsertOptions,
+  ContactUpsertResult,
+  ContactUtmTagParams,
+  DoNotContactChannel,
+  DoNotContactParams,
+  DuplicateContactGroup,
+  ListParams,
+  PaginationOptions,
 } from '../types/mautic';
 import { MauticClient } from './client';
+import { runBatch } from './batch';
+import { Where } from './filters';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+import { formatDate, serializeQuery } from './query-string';
 
 export class MauticContacts {
   constructor(private client: MauticClient) {}
@@ -23,23 +49,45 @@ export class MauticContacts {
   /**
    * List contacts with optional filters
    */
-  async list(params?: {
-    start?: number;
-    limit?: number;
-    where?: Array<{ col: string; expr: string; val: string }>;
-    order?: Array<{ col: string; dir: 'asc' | 'desc' }>;
-    search?: string;
-  }): Promise<{ total: number; contacts: Record<string, MauticContact> }> {
+  async list(
+    params?: ContactListParams
+  ): Promise<{ total: number; contacts: MauticContact[] }> {
     const response = await this.client.get<Record<string, MauticContact>>(
       '/contacts',
       params
     );
     return {
-      total: response.total as number,
-      contacts: response.contacts as Record<string, MauticContact>,
+      total: Number(response.total),
+      contacts: toOrderedArray(response.contacts, resolveListOrder(params)),
     };
   }
 
+  /**
+   * Iterate over all contacts matching the filters, page by page
+   */
+  iterate(
+    params: ContactListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<MauticContact> {
+    return paginate(
+      async (start, limit) => {
+        const { total, contacts } = await this.list({ ...params, start, limit });
+        return { total, items: contacts };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all contacts matching the filters
+   */
+  async listAll(
+    params: ContactListParams = {},
+    options: PaginationOptions = {}
+  ): Promise<MauticContact[]> {
+    return collect(this.iterate(params, options));
+  }
+
   /**
    * Create a new contact
    */
@@ -59,6 +107,77 @@ export class MauticContacts {
     return response.contact as MauticContact;
   }
 
+  /**
+   * Find a single contact by a unique field (email by default)
+   */
+  async findOneBy(field: string, value: string | number): Promise<MauticContact | null> {
+    const { contacts } = await this.list({
+      where: [Where.eq(field, value)],
+      order: [{ col: 'id', dir: 'asc' }],
+      limit: 1,
+    });
+    return contacts[0] || null;
+  }
+
+  /**
+   * Create a contact, or patch only the fields that changed if it already exists
+   */
+  async upsertByEmail(
+    data: ContactCreateParams,
+    options: ContactUpsertOptions = {}
+  ): Promise<ContactUpsertResult> {
+    const uniqueField = options.uniqueField || 'email';
+    const uniqueValue = data[uniqueField];
+
+    if (uniqueValue === undefined || uniqueValue === null || uniqueValue === '') {
+      throw new Error(`Cannot upsert contact without a value for ${uniqueField}`);
+    }
+
+    const existing = await this.findOneBy(uniqueField, uniqueValue);
+    if (!existing?.id) {
+      const contact = await this.create(data);
+      return { action: 'created', contact, changedFields: Object.keys(data) };
+    }
+
+    const changes = diffContactFields(existing, data);
+    const changedFields = Object.keys(changes);
+    if (changedFields.length === 0) {
+      return { action: 'unchanged', contact: existing, changedFields };
+    }
+
+    const contact = await this.update(existing.id, changes);
+    return { action: 'updated', contact, changedFields };
+  }
+
+  /**
+   * Scan all contacts for matching normalized emails and suggest merges
+   *
+   * The suggested primary is the contact with the most points, then the oldest one.
+   */
+  async findDuplicates(options: PaginationOptions = {}): Promise<DuplicateContactGroup[]> {
+    const groups = new Map<string, MauticContact[]>();
+
+    for await (const contact of this.iterate({}, options)) {
+      const email = getFieldValue(contact, 'email');
+      if (!email) continue;
+
+      const key = normalizeEmail(String(email));
+      groups.set(key, [...(groups.get(key) || []), contact]);
+    }
+
+    const duplicates: DuplicateContactGroup[] = [];
+    for (const [normalizedEmail, contacts] of groups) {
+      if (contacts.length < 2) continue;
+
+      const [primary, ...rest] = [...contacts].sort(
+        (a, b) => (b.points || 0) - (a.points || 0) || (a.id || 0) - (b.id || 0)
+      );
+      duplicates.push({ normalizedEmail, primary, duplicates: rest });
+    }
+
+    return duplicates;
+  }
+
   /**
    * Delete a contact
    */
@@ -72,7 +191,9 @@ export class MauticContacts {
    */
   async addToSegment(contactId: number, segmentId: number): Promise<MauticContact> {
     const response = await this.client.post<MauticContact>(
-      `/segments/${segmentId}/contact/${contactId}/add`
+      `/segments/${segmentId}/contact/${contactId}/add`,
+      undefined,
+      { idempotent: true }
     );
     return response.contact as MauticContact;
   }
@@ -82,28 +203,37 @@ export class MauticContacts {
    */
   async removeFromSegment(contactId: number, segmentId: number): Promise<MauticContact> {
     const response = await this.client.post<MauticContact>(
-      `/segments/${segmentId}/contact/${contactId}/remove`
+      `/segments/${segmentId}/contact/${contactId}/remove`,
+      undefined,
+      { idempotent: true }
     );
     return response.contact as MauticContact;
   }
 
   /**
-   * Get contact's segments
+   * Get the segments a contact belongs to
    */
-  async getSegments(contactId: number): Promise<any> {
+  async getSegments(contactId: number): Promise<{ total: number; segments: ContactSegmentMembership[] }> {
     const response = await this.client.get<any>(`/contacts/${contactId}/segments`);
-    return response;
+    return {
+      total: Number(response.total),
+      segments: toOrderedArray<ContactSegmentMembership>(response.lists),
+    };
   }
 
   /**
    * Add points to a contact
    */
-  async addPoints(contactId: number, points: number, eventName?: string): Promise<any> {
+  async addPoints(
+    contactId: number,
+    points: number,
+    eventName?: string
+  ): Promise<{ success: boolean }> {
     const response = await this.client.post<any>(
       `/contacts/${contactId}/points/plus/${points}`,
       eventName ? { eventName } : undefined
     );
-    return response;
+    return { success: Boolean(response.success) };
   }
 
   /**
@@ -113,33 +243,378 @@ export class MauticContacts {
     contactId: number,
     points: number,
     eventName?: string
-  ): Promise<any> {
+  ): Promise<{ success: boolean }> {
     const response = await this.client.post<any>(
       `/contacts/${contactId}/points/minus/${points}`,
       eventName ? { eventName } : undefined
     );
-    return response;
+    return { success: Boolean(response.success) };
   }
 
   /**
    * Get contact activity/events
    */
-  async getActivity(
+  async getActivity(contactId: number, params?: ContactActivityParams): Promise<ContactActivity> {
+    const { dateFrom, dateTo, page, limit, ...filters } = params || {};
+    const response = await this.client.get<any>(`/contacts/${contactId}/activity`, {
+      filters: { ...filters, dateFrom, dateTo },
+      page,
+      limit,
+    });
+    return {
+      events: toOrderedArray<ContactActivityEvent>(response.events),
+      total: Number(response.total),
+      page: Number(response.page),
+      limit: Number(response.limit),
+      maxPages: Number(response.maxPages),
+      types: response.types || {},
+    };
+  }
+
+  /**
+   * Mark a contact as do-not-contact on a channel
+   */
+  async addDoNotContact(
     contactId: number,
-    params?: { search?: string; includeEvents?: string[]; excludeEvents?: string[] }
-  ): Promise<any> {
-    const response = await this.client.get<any>(
-      `/contacts/${contactId}/activity`,
-      params
+    channel: DoNotContactChannel = 'email',
+    params: DoNotContactParams = {}
+  ): Promise<MauticContact> {
+    const response = await this.client.post<MauticContact>(
+      `/contacts/${contactId}/dnc/${channel}/add`,
+      { reason: 3, ...params },
+      { idempotent: true }
     );
-    return response;
+    return response.contact as MauticContact;
+  }
+
+  /**
+   * Make a contact reachable on a channel again
+   */
+  async removeDoNotContact(
+    contactId: number,
+    channel: DoNotContactChannel = 'email'
+  ): Promise<MauticContact> {
+    const response = await this.client.post<MauticContact>(
+      `/contacts/${contactId}/dnc/${channel}/remove`,
+      undefined,
+      { idempotent: true }
+    );
+    return response.contact as MauticContact;
+  }
+
+  /**
+   * List notes attached to a contact
+   */
+  async getNotes(
+    contactId: number,
+    params?: ListParams
+  ): Promise<{ total: number; notes: ContactNote[] }> {
+    const response = await this.client.get<any>(`/contacts/${contactId}/notes`, params);
+    return {
+      total: Number(response.total),
+      notes: toOrderedArray<ContactNote>(response.notes, resolveListOrder(params)),
+    };
   }
 
   /**
-   * Batch create or update contacts
+   * Attach a note to a contact
    */
-  async batchCreateOrUpdate(contacts: ContactCreateParams[]): Promise<any> {
-    const response = await this.client.post<any>('/contacts/batch/new', contacts);
-    return response;
+  async addNote(contactId: number, note: ContactNoteParams): Promise<ContactNote> {
+    const response = await this.client.post<ContactNote>('/notes/new', {
+      lead: contactId,
+      type: 'general',
+      ...note,
+      dateTime: note.dateTime instanceof Date ? formatDate(note.dateTime) : note.dateTime,
+    });
+    return response.note;
   }
+
+  /**
+   * Update a note
+   */
+  async updateNote(noteId: number, note: Partial<ContactNoteParams>): Promise<ContactNote> {
+    const response = await this.client.patch<ContactNote>(
+      `/notes/${noteId}/edit`,
+      {
+        ...note,
+        dateTime: note.dateTime instanceof Date ? formatDate(note.dateTime) : note.dateTime,
+      },
+      { idempotent: true }
+    );
+    return response.note;
+  }
+
+  /**
+   * Delete a note
+   */
+  async deleteNote(noteId: number): Promise<ContactNote> {
+    const response = await this.client.delete<ContactNote>(`/notes/${noteId}/delete`);
+    return response.note;
+  }
+
+  /**
+   * Record a UTM tag (campaign visit) for a contact
+   */
+  async addUtmTags(contactId: number, tags: ContactUtmTagParams): Promise<MauticContact> {
+    const response = await this.client.post<MauticContact>(`/contacts/${contactId}/utm/add`, {
+      ...tags,
+      lastActive: tags.lastActive instanceof Date ? formatDate(tags.lastActive) : tags.lastActive,
+    });
+    return response.contact as MauticContact;
+  }
+
+  /**
+   * Remove a UTM tag from a contact
+   */
+  async removeUtmTags(contactId: number, utmId: number): Promise<MauticContact> {
+    const response = await this.client.post<MauticContact>(
+      `/contacts/${contactId}/utm/${utmId}/remove`,
+      undefined,
+      { idempotent: true }
+    );
+    return response.contact as MauticContact;
+  }
+
+  /**
+   * List users that can own contacts
+   */
+  async getOwners(): Promise<ContactOwner[]> {
+    // Returned as a plain array rather than wrapped in a key
+    const response = await this.client.get<ContactOwner>('/contacts/list/owners');
+    return toOrderedArray(response);
+  }
+
+  /**
+   * Assign a contact to an owner (user ID), or pass null to unassign
+   */
+  async setOwner(contactId: number, ownerId: number | null): Promise<MauticContact> {
+    const response = await this.client.patch<MauticContact>(
+      `/contacts/${contactId}/edit`,
+      { owner: ownerId },
+      { idempotent: true }
+    );
+    return response.contact as MauticContact;
+  }
+
+  /**
+   * List the devices a contact has been tracked on
+   */
+  async getDevices(contactId: number): Promise<{ total: number; devices: ContactDevice[] }> {
+    const response = await this.client.get<any>(`/contacts/${contactId}/devices`);
+    return {
+      total: Number(response.total),
+      devices: toOrderedArray<ContactDevice>(response.devices),
+    };
+  }
+
+  /**
+   * List the companies a contact is linked to
+   */
+  async getCompanies(
+    contactId: number
+  ): Promise<{ total: number; companies: ContactCompanyLink[] }> {
+    const response = await this.client.get<any>(`/contacts/${contactId}/companies`);
+    return {
+      total: Number(response.total),
+      companies: toOrderedArray<ContactCompanyLink>(response.companies),
+    };
+  }
+
+  /**
+   * Link a contact to a company
+   */
+  async addToCompany(contactId: number, companyId: number): Promise<void> {
+    await this.client.post(`/companies/${companyId}/contact/${contactId}/add`, undefined, {
+      idempotent: true,
+    });
+  }
+
+  /**
+   * Unlink a contact from a company
+   */
+  async removeFromCompany(contactId: number, companyId: number): Promise<void> {
+    await this.client.post(`/companies/${companyId}/contact/${contactId}/remove`, undefined, {
+      idempotent: true,
+    });
+  }
+
+  /**
+   * List contact field definitions (core and custom)
+   */
+  async listFields(params?: ListParams): Promise<MauticContactField[]> {
+    const response = await this.client.get<any>('/fields/contact', params);
+    return toOrderedArray<MauticContactField>(response.fields, resolveListOrder(params));
+  }
+
+  /**
+   * Get a single contact field definition
+   */
+  async getField(fieldId: number): Promise<MauticContactField> {
+    const response = await this.client.get<MauticContactField>(`/fields/contact/${fieldId}`);
+    return response.field;
+  }
+
+  /**
+   * Merge `secondaryId` into `primaryId`
+   *
+   * The secondary contact's data and history move to the primary contact and the
+   * secondary contact is deleted.
+   */
+  async merge(primaryId: number, secondaryId: number): Promise<MauticContact> {
+    const response = await this.client.post<MauticContact>(
+      `/contacts/${primaryId}/merge/${secondaryId}`
+    );
+    return response.contact as MauticContact;
+  }
+
+  /**
+   * Batch create or update contacts, chunked to Mautic's batch limit
+   *
+   * Mautic matches existing contacts by their unique fields, so rows come back
+   * as created (201) or updated (200).
+   */
+  async batchCreateOrUpdate(
+    contacts: ContactCreateParams[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<ContactCreateParams, MauticContact>> {
+    return runBatch(
+      contacts,
+      options,
+      async rows => {
+        const response = await this.client.post<any>('/contacts/batch/new', rows);
+        return {
+          entities: response.contacts,
+          statusCodes: response.statusCodes,
+          errors: response.errors,
+        };
+      },
+      statusCode => (statusCode === 201 ? 'created' : 'updated')
+    );
+  }
+
+  /**
+   * Batch update existing contacts by ID
+   */
+  async batchEdit(
+    contacts: ContactEditParams[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<ContactEditParams, MauticContact>> {
+    return runBatch(
+      contacts,
+      options,
+      async rows => {
+        const response = await this.client.patch<any>('/contacts/batch/edit', rows, {
+          idempotent: true,
+        });
+        return {
+          entities: response.contacts,
+          statusCodes: response.statusCodes,
+          errors: response.errors,
+        };
+      },
+      () => 'updated'
+    );
+  }
+
+  /**
+   * Batch delete contacts by ID
+   */
+  async batchDelete(
+    ids: number[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<number, MauticContact>> {
+    return runBatch(
+      ids,
+      options,
+      async rows => {
+        const response = await this.client.delete<any>(
+          `/contacts/batch/delete?${serializeQuery({ ids: rows })}`
+        );
+        return { entities: response.contacts, errors: response.errors };
+      },
+      () => 'deleted'
+    );
+  }
+}
+
+/**
+ * Normalize an email for duplicate detection
+ *
+ * Lowercases, drops `+tag` suffixes and, for Gmail, dots in the local part.
+ */
+export function normalizeEmail(email: string): string {
+  const [rawLocal, rawDomain = ''] = email.trim().toLowerCase().split('@');
+  let local = rawLocal.split('+')[0];
+  let domain = rawDomain;
+
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+
+  return domain ? `${local}@${domain}` : local;
+}
+
+/**
+ * Read a field value from a contact, whether flattened under `fields.all` or grouped
+ */
+export function getFieldValue(contact: MauticContact | MauticCompany, field: string): unknown {
+  const fields = contact.fields as Record<string, any> | undefined;
+  if (!fields) return undefined;
+
+  if (fields.all && field in fields.all) {
+    return fields.all[field];
+  }
+
+  for (const group of Object.values(fields)) {
+    const entry = group?.[field];
+    if (entry && typeof entry === 'object' && 'value' in entry) {
+      return entry.value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the subset of `data` that differs from the stored contact
+ */
+function diffContactFields(
+  contact: MauticContact,
+  data: ContactCreateParams
+): Partial<ContactCreateParams> {
+  const changes: Partial<ContactCreateParams> = {};
+
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+
+    if (field === 'tags') {
+      const existingTags = (contact.tags || []).map((tag: any) =>
+        typeof tag === 'string' ? tag : tag.tag
+      );
+      const missingTags = (value as string[]).filter(tag => !existingTags.includes(tag));
+      if (missingTags.length > 0) {
+        changes.tags = missingTags;
+      }
+      continue;
+    }
+
+    if (!isSameFieldValue(field, getFieldValue(contact, field), value)) {
+      changes[field] = value;
+    }
+  }
+
+  return changes;
+}
+
+function isSameFieldValue(field: string, current: unknown, next: unknown): boolean {
+  const format = (value: unknown) =>
+    value === null || value === undefined ? '' : String(value).trim();
+
+  // Mautic matches emails case-insensitively
+  if (field === 'email') {
+    return format(current).toLowerCase() === format(next).toLowerCase();
+  }
+
+  return format(current) === format(next);
 }
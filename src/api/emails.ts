@@ -3,11 +3,25 @@
  */
 
 import type {
+  ContactEmailStats,
+  EmailContactStats,
+  EmailEngagementCounts,
   MauticEmail,
-  MauticApiResponse,
   EmailSendParams,
+  EmailListParams,
+  EmailStats,
+  PaginationOptions,
+  WhereExpression,
 } from '../types/mautic';
 import { MauticClient } from './client';
+import { Where } from './filters';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+
+// lead_donotcontact reasons
+const DNC_UNSUBSCRIBED = 1;
+const DNC_BOUNCED = 2;
+
+const STATS_PAGE_SIZE = 200;
 
 export class MauticEmails {
   constructor(private client: MauticClient) {}
@@ -23,22 +37,45 @@ export class MauticEmails {
   /**
    * List emails
    */
-  async list(params?: {
-    start?: number;
-    limit?: number;
-    search?: string;
-    published?: boolean;
-  }): Promise<{ total: number; emails: Record<string, MauticEmail> }> {
+  async list(
+    params?: EmailListParams
+  ): Promise<{ total: number; emails: MauticEmail[] }> {
     const response = await this.client.get<Record<string, MauticEmail>>(
       '/emails',
       params
     );
     return {
-      total: response.total as number,
-      emails: response.emails as Record<string, MauticEmail>,
+      total: Number(response.total),
+      emails: toOrderedArray(response.emails, resolveListOrder(params)),
     };
   }
 
+  /**
+   * Iterate over all emails, page by page
+   */
+  iterate(
+    params: EmailListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<MauticEmail> {
+    return paginate(
+      async (start, limit) => {
+        const { total, emails } = await this.list({ ...params, start, limit });
+        return { total, items: emails };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all emails
+   */
+  async listAll(
+    params: EmailListParams = {},
+    options: PaginationOptions = {}
+  ): Promise<MauticEmail[]> {
+    return collect(this.iterate(params, options));
+  }
+
   /**
    * Create a new email
    */
@@ -100,10 +137,98 @@ export class MauticEmails {
   }
 
   /**
-   * Get email statistics
+   * Get sent, read, clicked, bounced, unsubscribed and failed counts for an email
    */
-  async getStats(emailId: number): Promise<any> {
-    const response = await this.client.get<any>(`/emails/${emailId}/stats`);
-    return response;
+  async getStats(emailId: number): Promise<EmailStats> {
+    return { emailId, ...countEngagement(await this.listRecipientStats(emailId)) };
+  }
+
+  /**
+   * Get one stats row per contact an email was sent to
+   */
+  async listRecipientStats(emailId: number): Promise<EmailContactStats[]> {
+    return this.loadContactStats('email_id', emailId);
+  }
+
+  /**
+   * Get a contact's stats for every email sent to them
+   */
+  async getContactStats(contactId: number): Promise<ContactEmailStats> {
+    const emails = await this.loadContactStats('lead_id', contactId);
+    return { contactId, ...countEngagement(emails), emails };
+  }
+
+  /**
+   * Join sends with link clicks and do-not-contact entries through the stats API
+   */
+  private async loadContactStats(
+    col: 'email_id' | 'lead_id',
+    id: number
+  ): Promise<EmailContactStats[]> {
+    const [sends, hits, doNotContact] = await Promise.all([
+      this.listStatsTable('email_stats', [Where.eq(col, id)]),
+      this.listStatsTable('page_hits', [Where.eq(col, id), Where.isNotNull('email_id')]),
+      this.listStatsTable('lead_donotcontact', [
+        Where.eq('channel', 'email'),
+        col === 'email_id' ? Where.eq('channel_id', id) : Where.eq('lead_id', id),
+      ]),
+    ]);
+
+    const key = (emailId: unknown, contactId: unknown) => `${Number(emailId)}:${Number(contactId)}`;
+    const clicked = new Set(hits.map(hit => key(hit.email_id, hit.lead_id)));
+    const reasons = new Map(
+      doNotContact.map(entry => [key(entry.channel_id, entry.lead_id), Number(entry.reason)])
+    );
+
+    return sends.map(row => {
+      const reason = reasons.get(key(row.email_id, row.lead_id));
+      return {
+        emailId: Number(row.email_id),
+        contactId: Number(row.lead_id),
+        emailAddress: row.email_address || '',
+        dateSent: row.date_sent || null,
+        dateRead: row.date_read || null,
+        openCount: Number(row.open_count || 0),
+        read: isSet(row.is_read),
+        clicked: clicked.has(key(row.email_id, row.lead_id)),
+        bounced: reason === DNC_BOUNCED,
+        unsubscribed: reason === DNC_UNSUBSCRIBED,
+        failed: isSet(row.is_failed),
+        source: row.source || null,
+        sourceId: row.source_id == null ? null : Number(row.source_id),
+      };
+    });
   }
+
+  private listStatsTable(table: string, where: WhereExpression[]): Promise<Record<string, any>[]> {
+    return collect(
+      paginate(
+        async (start, limit) => {
+          const response = await this.client.get<any>(`/stats/${table}`, { start, limit, where });
+          const items = toOrderedArray<Record<string, any>>(response.stats);
+          return { total: Number(response.total ?? items.length), items };
+        },
+        { pageSize: STATS_PAGE_SIZE }
+      )
+    );
+  }
+}
+
+/**
+ * Sum per-contact stats into counts
+ */
+export function countEngagement(stats: EmailContactStats[]): EmailEngagementCounts {
+  const count = (flag: keyof EmailContactStats) => stats.filter(s => s[flag]).length;
+  return {
+    sent: stats.length,
+    read: count('read'),
+    clicked: count('clicked'),
+    bounced: count('bounced'),
+    unsubscribed: count('unsubscribed'),
+    failed: count('failed'),
+  };
+}
+
+function isSet(value: unknown): boolean {
+  return value === true || Number(value) === 1;
 }
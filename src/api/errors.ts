@@ -0,0 +1,189 @@
+/**
+ * Mautic Error Classes
+ * Every error thrown by the SDK extends MauticError so callers can branch on type
+ */
+
+import type { MauticErrorContext, MauticErrorDetail } from '../types/mautic';
+import { parseRetryAfter } from './retry';
+
+export class MauticError extends Error {
+  readonly method?: string;
+  readonly endpoint?: string;
+  readonly status?: number;
+
+  constructor(message: string, context: MauticErrorContext = {}, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+    this.method = context.method;
+    this.endpoint = context.endpoint;
+    this.status = context.status;
+  }
+}
+
+/**
+ * Error response (or unreadable response) from the Mautic API
+ */
+export class MauticApiError extends MauticError {
+  readonly errors: MauticErrorDetail[];
+  readonly body: string;
+
+  constructor(
+    message: string,
+    context: MauticErrorContext = {},
+    errors: MauticErrorDetail[] = [],
+    body = ''
+  ) {
+    super(message, context);
+    this.errors = errors;
+    this.body = body;
+  }
+}
+
+/**
+ * Missing or rejected credentials (401/403, OAuth2 token endpoint failures,
+ * or no usable token configured)
+ */
+export class MauticAuthError extends MauticApiError {}
+
+/**
+ * Requested entity does not exist (404)
+ */
+export class MauticNotFoundError extends MauticApiError {}
+
+/**
+ * Request payload was rejected, with per-field messages from `details`
+ */
+export class MauticValidationError extends MauticApiError {
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    context: MauticErrorContext = {},
+    errors: MauticErrorDetail[] = [],
+    body = ''
+  ) {
+    super(message, context, errors, body);
+    this.fieldErrors = {};
+    for (const error of errors) {
+      for (const [field, messages] of Object.entries(error.details || {})) {
+        const list = Array.isArray(messages) ? messages : [String(messages)];
+        this.fieldErrors[field] = [...(this.fieldErrors[field] || []), ...list];
+      }
+    }
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class MauticRateLimitError extends MauticApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    context: MauticErrorContext = {},
+    errors: MauticErrorDetail[] = [],
+    body = '',
+    retryAfterMs?: number
+  ) {
+    super(message, context, errors, body);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Request never got a response (DNS failure, connection reset, timeout)
+ */
+export class MauticNetworkError extends MauticError {}
+
+/**
+ * Campaign event graph is invalid (orphaned events, bad parent links or timing)
+ */
+export class MauticCampaignGraphError extends MauticError {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid campaign: ${problems.join('; ')}`);
+    this.problems = problems;
+  }
+}
+
+/**
+ * Segment filters use unknown fields, operators the field type does not
+ * support or values of the wrong shape
+ */
+export class MauticSegmentFilterError extends MauticError {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid segment filters: ${problems.join('; ')}`);
+    this.problems = problems;
+  }
+}
+
+/**
+ * Incoming webhook request was unsigned, wrongly signed (401) or unreadable (400)
+ */
+export class MauticWebhookError extends MauticError {}
+
+/**
+ * Build the matching error class from a failed response
+ *
+ * Handles Mautic's `{ errors: [...] }` format, OAuth2's `{ error, error_description }`
+ * format and non-JSON bodies such as HTML error pages.
+ */
+export async function createErrorFromResponse(
+  response: Response,
+  context: MauticErrorContext
+): Promise<MauticApiError> {
+  const body = await response.text().catch(() => '');
+  const fullContext = { ...context, status: response.status };
+  const errors = parseErrorBody(body);
+
+  const message =
+    errors.map(e => e.message).filter(Boolean).join('; ') ||
+    `${response.status} ${response.statusText || 'Unknown error'}`;
+  const prefixed = context.method
+    ? `${context.method} ${context.endpoint} failed: ${message}`
+    : message;
+
+  if (response.status === 401 || response.status === 403) {
+    return new MauticAuthError(prefixed, fullContext, errors, body);
+  }
+  if (response.status === 404) {
+    return new MauticNotFoundError(prefixed, fullContext, errors, body);
+  }
+  if (response.status === 429) {
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    return new MauticRateLimitError(prefixed, fullContext, errors, body, retryAfterMs);
+  }
+  if (response.status === 400 || response.status === 422) {
+    return new MauticValidationError(prefixed, fullContext, errors, body);
+  }
+
+  return new MauticApiError(prefixed, fullContext, errors, body);
+}
+
+function parseErrorBody(body: string): MauticErrorDetail[] {
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return [];
+  }
+
+  if (Array.isArray(data?.errors)) {
+    return data.errors;
+  }
+  if (data?.errors && typeof data.errors === 'object') {
+    return Object.values(data.errors) as MauticErrorDetail[];
+  }
+  if (typeof data?.error === 'string') {
+    return [{ message: data.error_description || data.error, type: data.error }];
+  }
+  if (data?.error?.message) {
+    return [data.error];
+  }
+
+  return [];
+}
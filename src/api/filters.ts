@@ -0,0 +1,94 @@
+/**
+ * Where Filter Builder
+ * Type-checked expressions for the `where` param of Mautic list endpoints
+ *
+ * @example
+ * mautic.contacts.list({
+ *   where: [
+ *     Where.in('company', ['BioTech Ventures GmbH', 'BioInvest Partners']),
+ *     Where.gte('dateAdded', new Date('2024-01-01')),
+ *     Where.orX(Where.isNull('owner_id'), Where.eq('owner_id', 3)),
+ *   ],
+ * });
+ */
+
+import type { WhereExpression, WhereValue } from '../types/mautic';
+
+export class Where {
+  static eq(col: string, val: WhereValue): WhereExpression {
+    return { col, expr: 'eq', val };
+  }
+
+  static neq(col: string, val: WhereValue): WhereExpression {
+    return { col, expr: 'neq', val };
+  }
+
+  static lt(col: string, val: WhereValue): WhereExpression {
+    return { col, expr: 'lt', val };
+  }
+
+  static lte(col: string, val: WhereValue): WhereExpression {
+    return { col, expr: 'lte', val };
+  }
+
+  static gt(col: string, val: WhereValue): WhereExpression {
+    return { col, expr: 'gt', val };
+  }
+
+  static gte(col: string, val: WhereValue): WhereExpression {
+    return { col, expr: 'gte', val };
+  }
+
+  /**
+   * SQL LIKE, use `%` as wildcard
+   */
+  static like(col: string, pattern: string): WhereExpression {
+    return { col, expr: 'like', val: pattern };
+  }
+
+  static notLike(col: string, pattern: string): WhereExpression {
+    return { col, expr: 'notLike', val: pattern };
+  }
+
+  static in(col: string, values: WhereValue[]): WhereExpression {
+    return { col, expr: 'in', val: values };
+  }
+
+  static notIn(col: string, values: WhereValue[]): WhereExpression {
+    return { col, expr: 'notIn', val: values };
+  }
+
+  static between(col: string, from: WhereValue, to: WhereValue): WhereExpression {
+    return { col, expr: 'between', val: [from, to] };
+  }
+
+  static isNull(col: string): WhereExpression {
+    return { col, expr: 'isNull' };
+  }
+
+  static isNotNull(col: string): WhereExpression {
+    return { col, expr: 'isNotNull' };
+  }
+
+  static isEmpty(col: string): WhereExpression {
+    return { col, expr: 'isEmpty' };
+  }
+
+  static isNotEmpty(col: string): WhereExpression {
+    return { col, expr: 'isNotEmpty' };
+  }
+
+  /**
+   * All sub-expressions must match
+   */
+  static andX(...expressions: WhereExpression[]): WhereExpression {
+    return { expr: 'andX', val: expressions };
+  }
+
+  /**
+   * At least one sub-expression must match
+   */
+  static orX(...expressions: WhereExpression[]): WhereExpression {
+    return { expr: 'orX', val: expressions };
+  }
+}
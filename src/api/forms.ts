@@ -0,0 +1,170 @@
+/**
+ * Mautic Forms API
+ */
+
+import type {
+  FormCreateParams,
+  FormSubmissionListParams,
+  ListParams,
+  MauticForm,
+  MauticFormSubmission,
+  PaginationOptions,
+} from '../types/mautic';
+import { MauticClient } from './client';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+
+export class MauticForms {
+  constructor(private client: MauticClient) {}
+
+  /**
+   * Get a single form by ID, including its fields and actions
+   */
+  async get(id: number): Promise<MauticForm> {
+    const response = await this.client.get<MauticForm>(`/forms/${id}`);
+    return response.form as MauticForm;
+  }
+
+  /**
+   * List forms
+   */
+  async list(params?: ListParams): Promise<{ total: number; forms: MauticForm[] }> {
+    const response = await this.client.get<Record<string, MauticForm>>('/forms', params);
+    return {
+      total: Number(response.total),
+      forms: toOrderedArray(response.forms, resolveListOrder(params)),
+    };
+  }
+
+  /**
+   * Iterate over all forms, page by page
+   */
+  iterate(params: ListParams = {}, options: PaginationOptions = {}): AsyncIterable<MauticForm> {
+    return paginate(
+      async (start, limit) => {
+        const { total, forms } = await this.list({ ...params, start, limit });
+        return { total, items: forms };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all forms
+   */
+  async listAll(params: ListParams = {}, options: PaginationOptions = {}): Promise<MauticForm[]> {
+    return collect(this.iterate(params, options));
+  }
+
+  /**
+   * Create a form with its fields and actions
+   */
+  async create(data: FormCreateParams): Promise<MauticForm> {
+    const response = await this.client.post<MauticForm>('/forms/new', data);
+    return response.form as MauticForm;
+  }
+
+  /**
+   * Update a form
+   *
+   * Fields and actions left out of the update are kept. Pass `{ replace: true }`
+   * to send a PUT instead, which deletes them.
+   */
+  async update(
+    id: number,
+    data: Partial<FormCreateParams>,
+    options: { replace?: boolean } = {}
+  ): Promise<MauticForm> {
+    const response = options.replace
+      ? await this.client.put<MauticForm>(`/forms/${id}/edit`, data)
+      : await this.client.patch<MauticForm>(`/forms/${id}/edit`, data);
+    return response.form as MauticForm;
+  }
+
+  /**
+   * Delete a form
+   */
+  async delete(id: number): Promise<{ id: number }> {
+    const response = await this.client.delete<{ id: number }>(`/forms/${id}/delete`);
+    return response.form as { id: number };
+  }
+
+  /**
+   * List submissions of a form
+   *
+   * `TResults` types the `results` map (field alias -> value).
+   */
+  async listSubmissions<TResults = Record<string, string>>(
+    formId: number,
+    params?: FormSubmissionListParams
+  ): Promise<{ total: number; submissions: MauticFormSubmission<TResults>[] }> {
+    const response = await this.client.get<any>(`/forms/${formId}/submissions`, params);
+    return {
+      total: Number(response.total),
+      submissions: toOrderedArray<MauticFormSubmission<TResults>>(
+        response.submissions,
+        resolveListOrder(params)
+      ),
+    };
+  }
+
+  /**
+   * Iterate over all submissions of a form, page by page
+   */
+  iterateSubmissions<TResults = Record<string, string>>(
+    formId: number,
+    params: FormSubmissionListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<MauticFormSubmission<TResults>> {
+    return paginate(
+      async (start, limit) => {
+        const { total, submissions } = await this.listSubmissions<TResults>(formId, {
+          ...params,
+          start,
+          limit,
+        });
+        return { total, items: submissions };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all submissions of a form
+   */
+  async listAllSubmissions<TResults = Record<string, string>>(
+    formId: number,
+    params: FormSubmissionListParams = {},
+    options: PaginationOptions = {}
+  ): Promise<MauticFormSubmission<TResults>[]> {
+    return collect(this.iterateSubmissions<TResults>(formId, params, options));
+  }
+
+  /**
+   * Get a single submission
+   */
+  async getSubmission<TResults = Record<string, string>>(
+    formId: number,
+    submissionId: number
+  ): Promise<MauticFormSubmission<TResults>> {
+    const response = await this.client.get<MauticFormSubmission<TResults>>(
+      `/forms/${formId}/submissions/${submissionId}`
+    );
+    return response.submission;
+  }
+
+  /**
+   * List a contact's submissions of a form
+   */
+  async getContactSubmissions<TResults = Record<string, string>>(
+    formId: number,
+    contactId: number
+  ): Promise<{ total: number; submissions: MauticFormSubmission<TResults>[] }> {
+    const response = await this.client.get<any>(
+      `/forms/${formId}/submissions/contact/${contactId}`
+    );
+    return {
+      total: Number(response.total),
+      submissions: toOrderedArray<MauticFormSubmission<TResults>>(response.submissions),
+    };
+  }
+}
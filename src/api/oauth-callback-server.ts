@@ -0,0 +1,144 @@
+/**
+ * OAuth2 Callback Server
+ * Short-lived local HTTP listener that catches the authorization code redirect
+ *
+ * The listener speaks plain HTTP only, so the callback URL must be an http: URL.
+ */
+
+import type { OAuthCallbackServerOptions } from '../types/mautic';
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class OAuthCallbackServer {
+  private server?: Server;
+  private listening?: Promise<void>;
+  private codePromise?: Promise<string>;
+  private rejectCode?: (error: Error) => void;
+  private callbackPath: string;
+  private hostname: string;
+  private port: number;
+
+  constructor(private options: OAuthCallbackServerOptions) {
+    const url = new URL(options.callbackUrl);
+    if (url.protocol !== 'http:') {
+      throw new Error(
+        `Callback URL ${options.callbackUrl} must use http: (the local callback listener does not serve TLS)`
+      );
+    }
+    this.callbackPath = url.pathname;
+    this.hostname = url.hostname;
+    this.port = options.port ?? (url.port ? parseInt(url.port, 10) : 80);
+  }
+
+  /**
+   * Bind the listener; rejects when the port cannot be used, so callers can
+   * fail before sending the user to the authorization page
+   */
+  start(): Promise<void> {
+    if (!this.listening) {
+      this.listening = this.listen();
+    }
+    return this.listening;
+  }
+
+  /**
+   * Start listening if needed and resolve with the authorization code once
+   * the browser is redirected back with a matching state
+   */
+  async waitForCode(): Promise<string> {
+    await this.start();
+
+    const timeout = setTimeout(
+      () => this.rejectCode!(new Error('Timed out waiting for the OAuth2 callback')),
+      this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+
+    try {
+      return await this.codePromise!;
+    } finally {
+      clearTimeout(timeout);
+      this.close();
+    }
+  }
+
+  /**
+   * Get the port the server is bound to
+   */
+  getPort(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  /**
+   * Stop listening
+   */
+  close(): void {
+    this.server?.close();
+    this.server?.closeAllConnections();
+  }
+
+  private async listen(): Promise<void> {
+    let resolveCode!: (code: string) => void;
+    let rejectCode!: (error: Error) => void;
+    this.codePromise = new Promise<string>((resolve, reject) => {
+      resolveCode = resolve;
+      rejectCode = reject;
+    });
+    // Settled before waitForCode awaits it when the callback arrives early
+    this.codePromise.catch(() => {});
+    this.rejectCode = rejectCode;
+
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url || '/', `http://${req.headers.host || this.hostname}`);
+
+      if (url.pathname !== this.callbackPath) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const error = url.searchParams.get('error');
+      const code = url.searchParams.get('code');
+      const state = url.searchParams.get('state');
+
+      if (state !== this.options.state) {
+        // Do not settle: a forged request must not abort the real login
+        this.respond(res, 400, 'Invalid state parameter.');
+      } else if (error) {
+        const description = url.searchParams.get('error_description') || error;
+        this.respond(res, 400, `Authorization failed: ${description}`);
+        rejectCode(new Error(`Authorization failed: ${description}`));
+      } else if (!code) {
+        this.respond(res, 400, 'Missing authorization code.');
+        rejectCode(new Error('Callback did not include an authorization code'));
+      } else {
+        this.respond(res, 200, 'Login successful. You can close this window.');
+        resolveCode(code);
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', (error: Error) =>
+        reject(
+          new Error(`Cannot listen on ${this.hostname}:${this.port} for the OAuth2 callback: ${error.message}`, {
+            cause: error,
+          })
+        )
+      );
+      this.server!.listen(this.port, this.hostname, () => resolve());
+    });
+  }
+
+  private respond(res: ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<!doctype html><html><body><p>${escapeHtml(message)}</p></body></html>`);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,93 @@
+/**
+ * Mautic Landing Pages API
+ */
+
+import type { ListParams, MauticPage, PageCreateParams, PaginationOptions } from '../types/mautic';
+import { MauticClient } from './client';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+
+export class MauticPages {
+  constructor(private client: MauticClient) {}
+
+  /**
+   * Get a single page by ID
+   */
+  async get(id: number): Promise<MauticPage> {
+    const response = await this.client.get<MauticPage>(`/pages/${id}`);
+    return response.page as MauticPage;
+  }
+
+  /**
+   * List pages
+   */
+  async list(params?: ListParams): Promise<{ total: number; pages: MauticPage[] }> {
+    const response = await this.client.get<Record<string, MauticPage>>('/pages', params);
+    return {
+      total: Number(response.total),
+      pages: toOrderedArray(response.pages, resolveListOrder(params)),
+    };
+  }
+
+  /**
+   * Iterate over all pages, page by page
+   */
+  iterate(params: ListParams = {}, options: PaginationOptions = {}): AsyncIterable<MauticPage> {
+    return paginate(
+      async (start, limit) => {
+        const { total, pages } = await this.list({ ...params, start, limit });
+        return { total, items: pages };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all pages
+   */
+  async listAll(params: ListParams = {}, options: PaginationOptions = {}): Promise<MauticPage[]> {
+    return collect(this.iterate(params, options));
+  }
+
+  /**
+   * Create a new page
+   */
+  async create(data: PageCreateParams): Promise<MauticPage> {
+    const response = await this.client.post<MauticPage>('/pages/new', data);
+    return response.page as MauticPage;
+  }
+
+  /**
+   * Update a page
+   */
+  async update(id: number, data: Partial<PageCreateParams>): Promise<MauticPage> {
+    const response = await this.client.patch<MauticPage>(`/pages/${id}/edit`, data, {
+      idempotent: true,
+    });
+    return response.page as MauticPage;
+  }
+
+  /**
+   * Delete a page
+   */
+  async delete(id: number): Promise<{ id: number }> {
+    const response = await this.client.delete<{ id: number }>(`/pages/${id}/delete`);
+    return response.page as { id: number };
+  }
+
+  /**
+   * Publish a page, optionally scheduling when it goes live and offline
+   */
+  async publish(
+    id: number,
+    schedule: { publishUp?: string; publishDown?: string } = {}
+  ): Promise<MauticPage> {
+    return this.update(id, { isPublished: true, ...schedule });
+  }
+
+  /**
+   * Unpublish a page
+   */
+  async unpublish(id: number): Promise<MauticPage> {
+    return this.update(id, { isPublished: false });
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Pagination Helpers
+ * Walk Mautic's start/limit list endpoints as async iterables
+ */
+
+import type { ListOrder, ListParams, Page, PaginationOptions } from '../types/mautic';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Yield every item from a paged endpoint, stopping once `total` is reached
+ */
+export async function* paginate<T>(
+  fetchPage: (start: number, limit: number) => Promise<Page<T>>,
+  options: PaginationOptions = {}
+): AsyncGenerator<T> {
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+  let start = options.start ?? 0;
+  let pending: Promise<Page<T>> | null = fetchPage(start, pageSize);
+
+  while (pending) {
+    const page: Page<T> = await pending;
+    pending = null;
+
+    const nextStart = start + page.items.length;
+    const hasMore = page.items.length > 0 && nextStart < page.total;
+
+    // Request the next page while the caller works through this one
+    if (hasMore && options.prefetch) {
+      pending = fetchPage(nextStart, pageSize);
+      // Avoid an unhandled rejection if the caller stops iterating early
+      pending.catch(() => {});
+    }
+
+    yield* page.items;
+
+    if (hasMore && !pending) {
+      pending = fetchPage(nextStart, pageSize);
+    }
+    start = nextStart;
+  }
+}
+
+/**
+ * Collect an async iterable into an array
+ */
+export async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Convert Mautic's id-keyed list response into an array
+ *
+ * JSON objects with numeric keys always come back sorted by id, which loses the
+ * server-side sort order, so the requested order is re-applied here.
+ */
+export function toOrderedArray<T>(
+  record: Record<string, T> | T[] | undefined | null,
+  order: ListOrder[] = []
+): T[] {
+  const items = Array.isArray(record) ? [...record] : Object.values(record || {});
+  if (order.length === 0) {
+    return items;
+  }
+
+  return items.sort((a, b) => {
+    for (const { col, dir } of order) {
+      const result = compareValues(getSortValue(a, col), getSortValue(b, col));
+      if (result !== 0) {
+        return dir === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Resolve the sort order requested via `order` or `orderBy`/`orderByDir`
+ */
+export function resolveListOrder(params?: ListParams & { order?: ListOrder[] }): ListOrder[] {
+  if (params?.order?.length) {
+    return params.order;
+  }
+  return params?.orderBy ? [{ col: params.orderBy, dir: params.orderByDir || 'asc' }] : [];
+}
+
+function getSortValue(item: any, col: string): unknown {
+  // Allow table-prefixed columns such as `l.dateAdded`
+  const key = col.includes('.') ? col.split('.').pop()! : col;
+
+  if (item?.[key] !== undefined) {
+    return item[key];
+  }
+
+  // Contacts keep custom field values under fields.all
+  return item?.fields?.all?.[key];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null || a === '') return 1;
+  if (b === undefined || b === null || b === '') return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
@@ -0,0 +1,53 @@
+/**
+ * Query String Serialization
+ * Encodes nested params in the bracketed format Mautic (PHP) expects,
+ * e.g. `where[0][col]=email&where[0][expr]=eq&where[0][val]=a@b.de`
+ */
+
+export function serializeQuery(params: Record<string, any>): string {
+  const pairs: string[] = [];
+
+  for (const [key, value] of Object.entries(params)) {
+    appendValue(pairs, encodeURIComponent(key), value);
+  }
+
+  return pairs.join('&');
+}
+
+function appendValue(pairs: string[], key: string, value: unknown): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => appendValue(pairs, `${key}[${index}]`, item));
+    return;
+  }
+
+  if (value instanceof Date) {
+    pairs.push(`${key}=${encodeURIComponent(formatDate(value))}`);
+    return;
+  }
+
+  if (typeof value === 'object') {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      appendValue(pairs, `${key}[${encodeURIComponent(childKey)}]`, childValue);
+    }
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    // PHP treats the string "false" as truthy, so send 1/0
+    pairs.push(`${key}=${value ? '1' : '0'}`);
+    return;
+  }
+
+  pairs.push(`${key}=${encodeURIComponent(String(value))}`);
+}
+
+/**
+ * Format a date the way Mautic stores it (UTC, `Y-m-d H:i:s`)
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, '');
+}
@@ -0,0 +1,120 @@
+/**
+ * Rate Limiter
+ * Token bucket plus a max-in-flight cap shared by every request of a client
+ */
+
+import type { RateLimitOptions, QueueStats } from '../types/mautic';
+import { MauticError } from './errors';
+
+const DEFAULT_REQUESTS_PER_SECOND = 10;
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+export class RateLimiter {
+  private requestsPerSecond: number;
+  private burst: number;
+  private maxConcurrency: number;
+  private onQueueChange?: (stats: QueueStats) => void;
+
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private completed = 0;
+  private queue: Array<() => void> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+    // NaN or <= 0 would never refill a token and stall every request
+    if (!(this.requestsPerSecond > 0)) {
+      throw new MauticError(
+        `requestsPerSecond must be greater than 0, got ${this.requestsPerSecond} (use Infinity to disable rate limiting)`
+      );
+    }
+    this.burst = Math.max(1, options.burst ?? this.requestsPerSecond);
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+    this.onQueueChange = options.onQueueChange;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Run a task once a token and a concurrency slot are available
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Get current queue depth and in-flight count
+   */
+  getStats(): QueueStats {
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      completed: this.completed,
+    };
+  }
+
+  private acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  private release(): void {
+    this.inFlight--;
+    this.completed++;
+    this.drain();
+  }
+
+  /**
+   * Start as many queued tasks as tokens and slots allow
+   */
+  private drain(): void {
+    this.refill();
+
+    while (
+      this.queue.length > 0 &&
+      this.inFlight < this.maxConcurrency &&
+      this.tokens >= 1
+    ) {
+      this.tokens -= 1;
+      this.inFlight++;
+      this.queue.shift()!();
+    }
+
+    // Out of tokens: wake up once the next one has been refilled
+    if (
+      this.queue.length > 0 &&
+      this.inFlight < this.maxConcurrency &&
+      this.tokens < 1 &&
+      !this.timer
+    ) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+
+    this.onQueueChange?.(this.getStats());
+  }
+
+  private refill(): void {
+    if (!Number.isFinite(this.requestsPerSecond)) {
+      this.tokens = Infinity;
+      return;
+    }
+
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+}
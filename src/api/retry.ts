@@ -0,0 +1,125 @@
+/**
+ * Retry Policy
+ * Decides whether a failed request may be replayed and how long to wait
+ */
+
+import type { RetryOptions } from '../types/mautic';
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 'full',
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+  maxRetryAfterMs: 120000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export class RetryPolicy {
+  private options: Required<RetryOptions>;
+
+  constructor(options: RetryOptions = {}) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  }
+
+  /**
+   * Total number of attempts allowed per request
+   */
+  get maxAttempts(): number {
+    return Math.max(1, this.options.maxAttempts);
+  }
+
+  /**
+   * Check if a request can be replayed without side effects
+   */
+  isIdempotent(method: string, idempotent?: boolean): boolean {
+    if (idempotent !== undefined) return idempotent;
+    return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+  }
+
+  /**
+   * Check if a response status should be retried
+   */
+  shouldRetryStatus(
+    method: string,
+    status: number,
+    attempt: number,
+    idempotent?: boolean
+  ): boolean {
+    if (attempt >= this.maxAttempts) return false;
+    if (!this.options.retryOnStatus.includes(status)) return false;
+
+    // A 429 is rejected before the request is processed, so replaying is safe
+    if (status === 429) return true;
+
+    return this.options.retryNonIdempotent || this.isIdempotent(method, idempotent);
+  }
+
+  /**
+   * Check if a network error (connection reset, DNS failure, ...) should be retried
+   */
+  shouldRetryNetworkError(method: string, attempt: number, idempotent?: boolean): boolean {
+    if (attempt >= this.maxAttempts) return false;
+    if (!this.options.retryOnNetworkError) return false;
+
+    return this.options.retryNonIdempotent || this.isIdempotent(method, idempotent);
+  }
+
+  /**
+   * Get the delay before the next attempt, or null if the wait is too long
+   */
+  getDelay(attempt: number, retryAfter?: string | null): number | null {
+    const retryAfterMs = this.parseRetryAfter(retryAfter);
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs > this.options.maxRetryAfterMs ? null : retryAfterMs;
+    }
+
+    return this.getBackoffDelay(attempt);
+  }
+
+  /**
+   * Calculate exponential backoff with jitter for a given attempt (1-based)
+   */
+  getBackoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this.options;
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+    switch (jitter) {
+      case 'full':
+        return Math.floor(Math.random() * exponential);
+      case 'equal':
+        return Math.floor(exponential / 2 + Math.random() * (exponential / 2));
+      default:
+        return exponential;
+    }
+  }
+
+  /**
+   * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+   */
+  parseRetryAfter(header?: string | null): number | undefined {
+    return parseRetryAfter(header);
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header?: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
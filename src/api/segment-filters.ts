@@ -0,0 +1,301 @@
+/**
+ * Segment Filter Builder
+ * Typed conditions for the `filters` of a segment, plus validation against the
+ * field definitions of a Mautic instance
+ *
+ * @example
+ * const tagIds = await mautic.tags.resolveIds(['vc', 'investor']);
+ * await mautic.segments.create({
+ *   name: 'Engaged investors',
+ *   filters: [
+ *     SegmentFilters.tags(tagIds),
+ *     SegmentFilters.field('audience_type', '=', 'vcs'),
+ *     SegmentFilters.points('gte', 50),
+ *     SegmentFilters.or(SegmentFilters.emailRead([12])),
+ *   ],
+ * });
+ */
+
+import type {
+  MauticContactField,
+  SegmentFilter,
+  SegmentFilterOperator,
+  SegmentFilterValue,
+} from '../types/mautic';
+import { formatDate } from './query-string';
+
+type FilterObject = SegmentFilter['object'];
+
+const TEXT_OPERATORS: SegmentFilterOperator[] = [
+  '=', '!=', 'empty', '!empty', 'like', '!like', 'regexp', '!regexp', 'startsWith', 'endsWith', 'contains',
+];
+const NUMBER_OPERATORS: SegmentFilterOperator[] = [
+  '=', '!=', 'gt', 'gte', 'lt', 'lte', 'empty', '!empty', 'between', '!between',
+];
+const CHOICE_OPERATORS: SegmentFilterOperator[] = ['=', '!=', 'empty', '!empty', 'in', '!in'];
+const ID_LIST_OPERATORS: SegmentFilterOperator[] = ['in', '!in'];
+
+/**
+ * Operators Mautic offers per field type; unlisted types behave like text
+ */
+const OPERATORS_BY_TYPE: Record<string, SegmentFilterOperator[]> = {
+  number: NUMBER_OPERATORS,
+  date: NUMBER_OPERATORS,
+  datetime: NUMBER_OPERATORS,
+  boolean: ['=', '!='],
+  select: CHOICE_OPERATORS,
+  country: CHOICE_OPERATORS,
+  region: CHOICE_OPERATORS,
+  timezone: CHOICE_OPERATORS,
+  locale: CHOICE_OPERATORS,
+  multiselect: ['in', '!in', 'empty', '!empty'],
+  tags: ['in', '!in', 'empty', '!empty'],
+  leadlist: ID_LIST_OPERATORS,
+  lead_email_received: ID_LIST_OPERATORS,
+  lead_email_sent: ID_LIST_OPERATORS,
+};
+
+// Types stored and compared as plain strings
+const TEXT_LIKE_TYPES = new Set(['text', 'textarea', 'email', 'tel', 'url', 'lookup']);
+
+// Types whose value is a list of entity IDs (tags, segments, emails)
+const ID_LIST_TYPES = new Set(['tags', 'leadlist', 'lead_email_received', 'lead_email_sent']);
+
+/**
+ * Filters Mautic provides that are not custom fields, by field name
+ */
+const BUILT_IN_FILTERS: Record<string, { object: FilterObject; type: string }> = {
+  tags: { object: 'lead', type: 'tags' },
+  leadlist: { object: 'lead', type: 'leadlist' },
+  points: { object: 'lead', type: 'number' },
+  date_added: { object: 'lead', type: 'datetime' },
+  date_identified: { object: 'lead', type: 'datetime' },
+  date_modified: { object: 'lead', type: 'datetime' },
+  last_active: { object: 'lead', type: 'datetime' },
+  lead_email_received: { object: 'behaviors', type: 'lead_email_received' },
+  lead_email_sent: { object: 'behaviors', type: 'lead_email_sent' },
+  lead_email_read_date: { object: 'behaviors', type: 'datetime' },
+  lead_email_read_count: { object: 'behaviors', type: 'number' },
+  dnc_unsubscribed: { object: 'behaviors', type: 'boolean' },
+  dnc_bounced: { object: 'behaviors', type: 'boolean' },
+};
+
+const DATETIME_FIELDS = new Set(
+  Object.entries(BUILT_IN_FILTERS)
+    .filter(([, definition]) => definition.type === 'datetime')
+    .map(([field]) => field)
+);
+
+export class SegmentFilters {
+  /**
+   * Contacts tagged with any of the tags (IDs, see MauticTags.resolveIds)
+   */
+  static tags(tagIds: number[], operator: 'in' | '!in' = 'in'): SegmentFilter {
+    return filter('tags', 'lead', 'tags', operator, tagIds);
+  }
+
+  /**
+   * Contacts without any of the tags
+   */
+  static withoutTags(tagIds: number[]): SegmentFilter {
+    return SegmentFilters.tags(tagIds, '!in');
+  }
+
+  /**
+   * Condition on a contact or company field; pass `type` for non-text fields
+   */
+  static field(
+    alias: string,
+    operator: SegmentFilterOperator,
+    value?: SegmentFilterValue,
+    options: { object?: 'lead' | 'company'; type?: string } = {}
+  ): SegmentFilter {
+    return filter(alias, options.object || 'lead', options.type || 'text', operator, value);
+  }
+
+  static points(operator: SegmentFilterOperator, value: number | [number, number]): SegmentFilter {
+    return filter('points', 'lead', 'number', operator, value);
+  }
+
+  /**
+   * Condition on a date field; values may be dates or relative strings such as
+   * `-30 days` or `today`
+   */
+  static date(
+    alias: string,
+    operator: SegmentFilterOperator,
+    value?: Date | string,
+    options: { object?: 'lead' | 'company'; type?: 'date' | 'datetime' } = {}
+  ): SegmentFilter {
+    const type = options.type || (DATETIME_FIELDS.has(alias) ? 'datetime' : 'date');
+    const object = BUILT_IN_FILTERS[alias]?.object || options.object || 'lead';
+    return filter(alias, object, type, operator, formatFilterDate(value, type));
+  }
+
+  static inSegments(segmentIds: number[]): SegmentFilter {
+    return filter('leadlist', 'lead', 'leadlist', 'in', segmentIds);
+  }
+
+  static notInSegments(segmentIds: number[]): SegmentFilter {
+    return filter('leadlist', 'lead', 'leadlist', '!in', segmentIds);
+  }
+
+  /**
+   * Contacts who opened (or, with `!in`, did not open) any of the emails
+   */
+  static emailRead(emailIds: number[], operator: 'in' | '!in' = 'in'): SegmentFilter {
+    return filter('lead_email_received', 'behaviors', 'lead_email_received', operator, emailIds);
+  }
+
+  static emailSent(emailIds: number[], operator: 'in' | '!in' = 'in'): SegmentFilter {
+    return filter('lead_email_sent', 'behaviors', 'lead_email_sent', operator, emailIds);
+  }
+
+  static emailReadDate(operator: SegmentFilterOperator, value: Date | string): SegmentFilter {
+    return SegmentFilters.date('lead_email_read_date', operator, value);
+  }
+
+  static unsubscribed(value = true): SegmentFilter {
+    return filter('dnc_unsubscribed', 'behaviors', 'boolean', '=', value ? 1 : 0);
+  }
+
+  /**
+   * Combine a filter with the previous one using OR instead of AND
+   */
+  static or(segmentFilter: SegmentFilter): SegmentFilter {
+    return { ...segmentFilter, glue: 'or' };
+  }
+}
+
+/**
+ * Check segment filters and return a list of problems (empty if valid)
+ *
+ * `fields` are the contact (and, for company filters, company) field
+ * definitions of the instance, as returned by `contacts.listFields()`.
+ */
+export function validateSegmentFilters(
+  filters: SegmentFilter[],
+  fields: MauticContactField[]
+): string[] {
+  const problems: string[] = [];
+
+  filters.forEach((segmentFilter, index) => {
+    const label = `Filter ${index + 1} ("${segmentFilter.field}")`;
+
+    if (segmentFilter.glue !== 'and' && segmentFilter.glue !== 'or') {
+      problems.push(`${label} has glue "${segmentFilter.glue}", expected "and" or "or"`);
+    }
+
+    const fieldType = resolveFieldType(segmentFilter, fields);
+    if (!fieldType) {
+      problems.push(`${label} uses unknown ${segmentFilter.object} field`);
+      return;
+    }
+    if (segmentFilter.type !== fieldType && !(isTextLike(segmentFilter.type) && isTextLike(fieldType))) {
+      problems.push(`${label} has type "${segmentFilter.type}" but the field is "${fieldType}"`);
+    }
+
+    const operators = OPERATORS_BY_TYPE[fieldType] || TEXT_OPERATORS;
+    if (!operators.includes(segmentFilter.operator)) {
+      problems.push(
+        `${label} operator "${segmentFilter.operator}" is not valid for ${fieldType} fields ` +
+          `(use one of ${operators.join(', ')})`
+      );
+      return;
+    }
+
+    const problem = checkValue(fieldType, segmentFilter.operator, getFilterValue(segmentFilter));
+    if (problem) {
+      problems.push(`${label} ${problem}`);
+    }
+  });
+
+  return problems;
+}
+
+function filter(
+  field: string,
+  object: FilterObject,
+  type: string,
+  operator: SegmentFilterOperator,
+  value?: SegmentFilterValue
+): SegmentFilter {
+  return {
+    glue: 'and',
+    field,
+    object,
+    type,
+    operator,
+    properties: { filter: value ?? null },
+  };
+}
+
+function resolveFieldType(
+  segmentFilter: SegmentFilter,
+  fields: MauticContactField[]
+): string | undefined {
+  const builtIn = BUILT_IN_FILTERS[segmentFilter.field];
+  if (builtIn && segmentFilter.object !== 'company') {
+    return builtIn.type;
+  }
+
+  const object = segmentFilter.object === 'company' ? 'company' : 'lead';
+  return fields.find(field => field.alias === segmentFilter.field && field.object === object)?.type;
+}
+
+function getFilterValue(segmentFilter: SegmentFilter): SegmentFilterValue | null | undefined {
+  return segmentFilter.properties?.filter ?? segmentFilter.filter;
+}
+
+function checkValue(
+  fieldType: string,
+  operator: SegmentFilterOperator,
+  value: SegmentFilterValue | null | undefined
+): string | undefined {
+  if (operator === 'empty' || operator === '!empty') {
+    return undefined;
+  }
+
+  if (operator === 'in' || operator === '!in') {
+    if (!Array.isArray(value) || value.length === 0) {
+      return `needs a non-empty list of values, got ${JSON.stringify(value)}`;
+    }
+    if (ID_LIST_TYPES.has(fieldType) && !value.every(isId)) {
+      return `expects ${fieldType === 'tags' ? 'tag' : 'entity'} IDs, got ${JSON.stringify(value)}`;
+    }
+    return undefined;
+  }
+
+  if (operator === 'between' || operator === '!between') {
+    return Array.isArray(value) && value.length === 2
+      ? undefined
+      : `needs a [from, to] pair, got ${JSON.stringify(value)}`;
+  }
+
+  if (value === undefined || value === null || value === '' || Array.isArray(value)) {
+    return `needs a single value, got ${JSON.stringify(value ?? null)}`;
+  }
+  if (fieldType === 'number' && !Number.isFinite(Number(value))) {
+    return `needs a number, got ${JSON.stringify(value)}`;
+  }
+  if (fieldType === 'boolean' && !['0', '1', 'true', 'false'].includes(String(value))) {
+    return `needs 0 or 1, got ${JSON.stringify(value)}`;
+  }
+  return undefined;
+}
+
+function isTextLike(type: string): boolean {
+  return TEXT_LIKE_TYPES.has(type);
+}
+
+function isId(value: string | number): boolean {
+  return /^\d+$/.test(String(value));
+}
+
+function formatFilterDate(value: Date | string | undefined, type: 'date' | 'datetime') {
+  if (!(value instanceof Date)) {
+    return value;
+  }
+  const formatted = formatDate(value);
+  return type === 'date' ? formatted.slice(0, 10) : formatted;
+}
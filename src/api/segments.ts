@@ -2,10 +2,35 @@
  * Mautic Segments API
  */
 
-import type { MauticSegment, MauticApiResponse } from '../types/mautic';
+import type {
+  BatchOptions,
+  BulkMembershipResult,
+  ContactListParams,
+  MauticContact,
+  MauticContactField,
+  MauticSegment,
+  ListParams,
+  PaginationOptions,
+  SegmentDiff,
+  SegmentDiffOptions,
+  SegmentFilter,
+  SegmentWriteOptions,
+} from '../types/mautic';
 import { MauticClient } from './client';
+import { MauticSegmentFilterError } from './errors';
+import { chunk, runMembershipBatch, runMembershipChanges } from './batch';
+import { getFieldValue } from './contacts';
+import { Where } from './filters';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+import { validateSegmentFilters } from './segment-filters';
+
+// Emails per contact lookup request, keeps the query string short
+const EMAIL_LOOKUP_SIZE = 50;
 
 export class MauticSegments {
+  private fieldDefinitions = new Map<'contact' | 'company', Promise<MauticContactField[]>>();
+  private aliases = new Map<number, Promise<string>>();
+
   constructor(private client: MauticClient) {}
 
   /**
@@ -19,25 +44,55 @@ export class MauticSegments {
   /**
    * List segments
    */
-  async list(params?: {
-    start?: number;
-    limit?: number;
-    search?: string;
-  }): Promise<{ total: number; segments: Record<string, MauticSegment> }> {
+  async list(
+    params?: ListParams
+  ): Promise<{ total: number; segments: MauticSegment[] }> {
     const response = await this.client.get<Record<string, MauticSegment>>(
       '/segments',
       params
     );
     return {
-      total: response.total as number,
-      segments: response.lists as Record<string, MauticSegment>,
+      total: Number(response.total),
+      segments: toOrderedArray(response.lists, resolveListOrder(params)),
     };
   }
 
+  /**
+   * Iterate over all segments, page by page
+   */
+  iterate(
+    params: ListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<MauticSegment> {
+    return paginate(
+      async (start, limit) => {
+        const { total, segments } = await this.list({ ...params, start, limit });
+        return { total, items: segments };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all segments
+   */
+  async listAll(
+    params: ListParams = {},
+    options: PaginationOptions = {}
+  ): Promise<MauticSegment[]> {
+    return collect(this.iterate(params, options));
+  }
+
   /**
    * Create a new segment
+   *
+   * Filters are checked against the instance's field definitions first and a
+   * MauticSegmentFilterError lists every problem; pass `{ validate: false }` to skip.
    */
-  async create(data: MauticSegment): Promise<MauticSegment> {
+  async create(data: MauticSegment, options: SegmentWriteOptions = {}): Promise<MauticSegment> {
+    if (options.validate !== false) {
+      await this.assertValidFilters(data.filters);
+    }
     const response = await this.client.post<MauticSegment>('/segments/new', data);
     return response.list as MauticSegment;
   }
@@ -45,7 +100,14 @@ export class MauticSegments {
   /**
    * Update a segment
    */
-  async update(id: number, data: Partial<MauticSegment>): Promise<MauticSegment> {
+  async update(
+    id: number,
+    data: Partial<MauticSegment>,
+    options: SegmentWriteOptions = {}
+  ): Promise<MauticSegment> {
+    if (options.validate !== false) {
+      await this.assertValidFilters(data.filters);
+    }
     const response = await this.client.patch<MauticSegment>(
       `/segments/${id}/edit`,
       data
@@ -64,20 +126,234 @@ export class MauticSegments {
   /**
    * Add a contact to a segment
    */
-  async addContact(segmentId: number, contactId: number): Promise<any> {
+  async addContact(segmentId: number, contactId: number): Promise<{ success: boolean }> {
     const response = await this.client.post<any>(
-      `/segments/${segmentId}/contact/${contactId}/add`
+      `/segments/${segmentId}/contact/${contactId}/add`,
+      undefined,
+      { idempotent: true }
     );
-    return response;
+    return { success: Boolean(response.success) };
   }
 
   /**
    * Remove a contact from a segment
    */
-  async removeContact(segmentId: number, contactId: number): Promise<any> {
+  async removeContact(segmentId: number, contactId: number): Promise<{ success: boolean }> {
     const response = await this.client.post<any>(
-      `/segments/${segmentId}/contact/${contactId}/remove`
+      `/segments/${segmentId}/contact/${contactId}/remove`,
+      undefined,
+      { idempotent: true }
+    );
+    return { success: Boolean(response.success) };
+  }
+
+  /**
+   * Add many contacts to a segment through the batch endpoint, reporting the
+   * outcome per contact
+   */
+  async addContacts(
+    segmentId: number,
+    contactIds: number[],
+    options: Pick<BatchOptions, 'chunkSize' | 'onProgress'> = {}
+  ): Promise<BulkMembershipResult> {
+    return runMembershipBatch(contactIds, options, async ids => {
+      const response = await this.client.post<any>(
+        `/segments/${segmentId}/contacts/add`,
+        { ids },
+        { idempotent: true }
+      );
+      const details: Record<string, { success?: boolean | number }> = response.details || {};
+      return new Set(
+        Object.entries(details)
+          .filter(([, detail]) => detail?.success)
+          .map(([contactId]) => Number(contactId))
+      );
+    });
+  }
+
+  /**
+   * Remove many contacts from a segment, reporting the outcome per contact
+   *
+   * Mautic has no batch endpoint for removal, so this sends one request per contact.
+   */
+  async removeContacts(
+    segmentId: number,
+    contactIds: number[],
+    options: Pick<BatchOptions, 'onProgress'> = {}
+  ): Promise<BulkMembershipResult> {
+    return runMembershipChanges(contactIds, options, contactId =>
+      this.removeContact(segmentId, contactId)
     );
-    return response;
   }
+
+  /**
+   * List the contacts in a segment
+   */
+  async listContacts(
+    segmentId: number,
+    params: ContactListParams = {}
+  ): Promise<{ total: number; contacts: MauticContact[] }> {
+    const alias = await this.getAlias(segmentId);
+    const response = await this.client.get<Record<string, MauticContact>>('/contacts', {
+      ...params,
+      search: [`segment:${alias}`, params.search].filter(Boolean).join(' '),
+    });
+    return {
+      total: Number(response.total),
+      contacts: toOrderedArray(response.contacts, resolveListOrder(params)),
+    };
+  }
+
+  /**
+   * Iterate over all contacts in a segment, page by page
+   */
+  iterateContacts(
+    segmentId: number,
+    params: ContactListParams = {},
+    options: PaginationOptions = {}
+  ): AsyncIterable<MauticContact> {
+    return paginate(
+      async (start, limit) => {
+        const { total, contacts } = await this.listContacts(segmentId, { ...params, start, limit });
+        return { total, items: contacts };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Count the contacts in a segment
+   */
+  async countContacts(segmentId: number): Promise<number> {
+    const { total } = await this.listContacts(segmentId, { limit: 1, minimal: true });
+    return total;
+  }
+
+  /**
+   * Compare a segment's members with a desired list of emails or contact IDs
+   *
+   * Emails are matched case-insensitively; emails without a Mautic contact are
+   * reported in `unknown` and not created. With `apply`, the missing contacts
+   * are added and (unless `remove: false`) the extra ones removed.
+   */
+  async diffContacts(
+    segmentId: number,
+    desired: Array<string | number>,
+    options: SegmentDiffOptions = {}
+  ): Promise<SegmentDiff> {
+    const memberIds = new Set<number>();
+    const memberIdsByEmail = new Map<string, number>();
+    for await (const contact of this.iterateContacts(segmentId)) {
+      memberIds.add(Number(contact.id));
+      const email = getFieldValue(contact, 'email');
+      if (email) memberIdsByEmail.set(lowerEmail(String(email)), Number(contact.id));
+    }
+
+    const desiredIds = new Set<number>();
+    const lookup: string[] = [];
+    for (const entry of desired) {
+      if (typeof entry === 'number') {
+        desiredIds.add(entry);
+        continue;
+      }
+      const email = lowerEmail(entry);
+      const memberId = memberIdsByEmail.get(email);
+      if (memberId !== undefined) desiredIds.add(memberId);
+      else lookup.push(email);
+    }
+
+    const found = await this.findContactIdsByEmail([...new Set(lookup)]);
+    for (const id of found.values()) desiredIds.add(id);
+
+    const diff: SegmentDiff = {
+      add: [...desiredIds].filter(id => !memberIds.has(id)),
+      remove: options.remove === false ? [] : [...memberIds].filter(id => !desiredIds.has(id)),
+      unchanged: [...memberIds].filter(id => desiredIds.has(id)),
+      unknown: [...new Set(lookup)].filter(email => !found.has(email)),
+    };
+
+    if (options.apply) {
+      diff.applied = {
+        added: await this.addContacts(segmentId, diff.add, { chunkSize: options.chunkSize }),
+        removed: await this.removeContacts(segmentId, diff.remove),
+      };
+    }
+    return diff;
+  }
+
+  /**
+   * Check segment filters against the instance's field definitions
+   *
+   * Returns a list of problems (empty if valid). Field definitions are fetched
+   * once per instance.
+   */
+  async validateFilters(filters: SegmentFilter[] = []): Promise<string[]> {
+    if (filters.length === 0) {
+      return [];
+    }
+
+    const fields = await this.getFieldDefinitions('contact');
+    if (filters.some(f => f.object === 'company')) {
+      fields.push(...(await this.getFieldDefinitions('company')));
+    }
+    return validateSegmentFilters(filters, fields);
+  }
+
+  private async assertValidFilters(filters?: SegmentFilter[]): Promise<void> {
+    const problems = await this.validateFilters(filters);
+    if (problems.length > 0) {
+      throw new MauticSegmentFilterError(problems);
+    }
+  }
+
+  private getAlias(segmentId: number): Promise<string> {
+    let alias = this.aliases.get(segmentId);
+    if (!alias) {
+      alias = this.get(segmentId).then(segment => segment.alias || '');
+      this.aliases.set(segmentId, alias);
+      alias.catch(() => this.aliases.delete(segmentId));
+    }
+    return alias;
+  }
+
+  private async findContactIdsByEmail(emails: string[]): Promise<Map<string, number>> {
+    const ids = new Map<string, number>();
+    for (const batch of chunk(emails, EMAIL_LOOKUP_SIZE)) {
+      const response = await this.client.get<Record<string, MauticContact>>('/contacts', {
+        where: [Where.in('email', batch)],
+        limit: batch.length * 2,
+        minimal: true,
+      });
+      for (const contact of toOrderedArray(response.contacts)) {
+        const email = getFieldValue(contact, 'email');
+        const key = email ? lowerEmail(String(email)) : '';
+        // Keep the oldest contact when an email is duplicated
+        if (key && (!ids.has(key) || Number(contact.id) < ids.get(key)!)) {
+          ids.set(key, Number(contact.id));
+        }
+      }
+    }
+    return ids;
+  }
+
+  private async getFieldDefinitions(object: 'contact' | 'company'): Promise<MauticContactField[]> {
+    let request = this.fieldDefinitions.get(object);
+    if (!request) {
+      request = collect(
+        paginate(async (start, limit) => {
+          const response = await this.client.get<any>(`/fields/${object}`, { start, limit });
+          const items = toOrderedArray<MauticContactField>(response.fields);
+          return { total: Number(response.total ?? items.length), items };
+        }, { pageSize: 100 })
+      );
+      this.fieldDefinitions.set(object, request);
+      // Retry on the next call instead of caching the failure
+      request.catch(() => this.fieldDefinitions.delete(object));
+    }
+    return [...(await request)];
+  }
+}
+
+function lowerEmail(email: string): string {
+  return email.trim().toLowerCase();
 }
@@ -0,0 +1,91 @@
+/**
+ * Mautic Tags API
+ * Segment filters and campaign actions reference tags by ID, not by name
+ */
+
+import type { ListParams, MauticTag, PaginationOptions } from '../types/mautic';
+import { MauticClient } from './client';
+import { MauticError } from './errors';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+
+export class MauticTags {
+  constructor(private client: MauticClient) {}
+
+  /**
+   * Get a single tag by ID
+   */
+  async get(id: number): Promise<MauticTag> {
+    const response = await this.client.get<MauticTag>(`/tags/${id}`);
+    return response.tag as MauticTag;
+  }
+
+  /**
+   * List tags
+   */
+  async list(params?: ListParams): Promise<{ total: number; tags: MauticTag[] }> {
+    const response = await this.client.get<Record<string, MauticTag>>('/tags', params);
+    return {
+      total: Number(response.total),
+      tags: toOrderedArray(response.tags, resolveListOrder(params)),
+    };
+  }
+
+  /**
+   * Iterate over all tags, page by page
+   */
+  iterate(params: ListParams = {}, options: PaginationOptions = {}): AsyncIterable<MauticTag> {
+    return paginate(
+      async (start, limit) => {
+        const { total, tags } = await this.list({ ...params, start, limit });
+        return { total, items: tags };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all tags
+   */
+  async listAll(params: ListParams = {}, options: PaginationOptions = {}): Promise<MauticTag[]> {
+    return collect(this.iterate(params, options));
+  }
+
+  /**
+   * Create a tag
+   */
+  async create(tag: string, description?: string): Promise<MauticTag> {
+    const response = await this.client.post<MauticTag>('/tags/new', { tag, description });
+    return response.tag as MauticTag;
+  }
+
+  /**
+   * Delete a tag
+   */
+  async delete(id: number): Promise<{ id: number }> {
+    const response = await this.client.delete<{ id: number }>(`/tags/${id}/delete`);
+    return response.tag as { id: number };
+  }
+
+  /**
+   * Look up tag IDs by name (case-insensitive), in the order given
+   *
+   * Throws for unknown names unless `create` is set, which creates them.
+   */
+  async resolveIds(names: string[], options: { create?: boolean } = {}): Promise<number[]> {
+    const byName = new Map<string, number>();
+    for (const tag of await this.listAll()) {
+      byName.set(tag.tag.trim().toLowerCase(), Number(tag.id));
+    }
+
+    const missing = names.filter(name => !byName.has(name.trim().toLowerCase()));
+    if (missing.length > 0 && !options.create) {
+      throw new MauticError(`Unknown tags: ${missing.join(', ')}`);
+    }
+    for (const name of new Set(missing.map(n => n.trim()))) {
+      const tag = await this.create(name);
+      byName.set(name.toLowerCase(), Number(tag.id));
+    }
+
+    return names.map(name => byName.get(name.trim().toLowerCase())!);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Token Stores
+ * Persist OAuth2 tokens so refreshed (and rotated) tokens survive restarts
+ */
+
+import type { StoredTokens, TokenStore } from '../types/mautic';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Keeps tokens in memory only (tests, short-lived scripts)
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens: StoredTokens | null;
+
+  constructor(initial?: StoredTokens) {
+    this.tokens = initial ? { ...initial } : null;
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    return this.tokens ? { ...this.tokens } : null;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+/**
+ * Stores tokens as JSON on disk, readable only by the current user
+ */
+export class FileTokenStore implements TokenStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<StoredTokens | null> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content);
+      return data.accessToken ? data : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated token file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
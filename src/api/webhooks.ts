@@ -0,0 +1,88 @@
+/**
+ * Mautic Webhooks API
+ * Manage webhook subscriptions; see src/webhooks for receiving them
+ */
+
+import type { ListParams, PaginationOptions } from '../types/mautic';
+import type { MauticWebhook } from '../types/webhooks';
+import { MauticClient } from './client';
+import { collect, paginate, resolveListOrder, toOrderedArray } from './pagination';
+
+export class MauticWebhooks {
+  constructor(private client: MauticClient) {}
+
+  /**
+   * Get a single webhook by ID
+   */
+  async get(id: number): Promise<MauticWebhook> {
+    const response = await this.client.get<MauticWebhook>(`/hooks/${id}`);
+    return response.hook as MauticWebhook;
+  }
+
+  /**
+   * List webhooks
+   */
+  async list(params?: ListParams): Promise<{ total: number; webhooks: MauticWebhook[] }> {
+    const response = await this.client.get<Record<string, MauticWebhook>>('/hooks', params);
+    return {
+      total: Number(response.total),
+      webhooks: toOrderedArray(response.hooks, resolveListOrder(params)),
+    };
+  }
+
+  /**
+   * Iterate over all webhooks, page by page
+   */
+  iterate(params: ListParams = {}, options: PaginationOptions = {}): AsyncIterable<MauticWebhook> {
+    return paginate(
+      async (start, limit) => {
+        const { total, webhooks } = await this.list({ ...params, start, limit });
+        return { total, items: webhooks };
+      },
+      { start: params.start, pageSize: params.limit, ...options }
+    );
+  }
+
+  /**
+   * Fetch all webhooks
+   */
+  async listAll(params: ListParams = {}, options: PaginationOptions = {}): Promise<MauticWebhook[]> {
+    return collect(this.iterate(params, options));
+  }
+
+  /**
+   * Create a webhook subscription
+   *
+   * Mautic generates a secret when none is given; read it from the result.
+   */
+  async create(data: Omit<MauticWebhook, 'id' | 'category'>): Promise<MauticWebhook> {
+    const response = await this.client.post<MauticWebhook>('/hooks/new', data);
+    return response.hook as MauticWebhook;
+  }
+
+  /**
+   * Update a webhook subscription
+   */
+  async update(id: number, data: Partial<Omit<MauticWebhook, 'id'>>): Promise<MauticWebhook> {
+    const response = await this.client.patch<MauticWebhook>(`/hooks/${id}/edit`, data, {
+      idempotent: true,
+    });
+    return response.hook as MauticWebhook;
+  }
+
+  /**
+   * Delete a webhook subscription
+   */
+  async delete(id: number): Promise<{ id: number }> {
+    const response = await this.client.delete<{ id: number }>(`/hooks/${id}/delete`);
+    return response.hook as { id: number };
+  }
+
+  /**
+   * List the triggers the Mautic instance offers (event name -> description)
+   */
+  async getTriggers(): Promise<Record<string, string>> {
+    const response = await this.client.get<Record<string, string>>('/hooks/triggers');
+    return response.triggers || {};
+  }
+}
@@ -0,0 +1,46 @@
+#!/usr/bin/env bun
+/**
+ * Mautic CLI
+ * Usage: bun run mautic <command> [options]
+ */
+
+import { loginCommand } from './login';
+import { lintCommand } from './lint';
+
+const commands: Record<string, { description: string; run: (args: string[]) => Promise<void> }> = {
+  login: {
+    description: 'Log in via OAuth2 authorization code (options: --no-pkce, --timeout=<seconds>)',
+    run: loginCommand,
+  },
+  lint: {
+    description: 'Validate email blocks and composer config (options: --blocks=<dir>, --config=<dir>)',
+    run: lintCommand,
+  },
+};
+
+function printUsage(): void {
+  console.log('Usage: bun run mautic <command> [options]\n');
+  console.log('Commands:');
+  for (const [name, command] of Object.entries(commands)) {
+    console.log(`  ${name.padEnd(10)} ${command.description}`);
+  }
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2);
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    printUsage();
+    process.exit(name ? 1 : 0);
+  }
+
+  await command.run(args);
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Lint Command
+ * Validates the email composer's block library and configuration
+ */
+
+import { EmailComposer } from '../email-composer/email-composer';
+
+export async function lintCommand(args: string[]): Promise<void> {
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+  const composer = new EmailComposer(option('config'), option('blocks'));
+
+  const { issues, errors, warnings } = await composer.validateLibrary();
+  for (const issue of issues) {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+    console.log(`${icon} ${issue.file}: ${issue.message}`);
+  }
+
+  if (errors > 0) {
+    throw new Error(`Block library has ${errors} error(s) and ${warnings} warning(s)`);
+  }
+  console.log(`✅ Block library is valid${warnings > 0 ? ` (${warnings} warning(s))` : ''}`);
+}
@@ -0,0 +1,60 @@
+/**
+ * Login Command
+ * Runs the OAuth2 authorization-code flow against a local callback listener
+ */
+
+import { MauticClient } from '../api/client';
+import { OAuthCallbackServer } from '../api/oauth-callback-server';
+import { loadConfig } from '../config/env';
+
+export async function loginCommand(args: string[]): Promise<void> {
+  const usePkce = !args.includes('--no-pkce');
+  const timeoutArg = args.find(arg => arg.startsWith('--timeout='));
+  const timeoutSeconds = timeoutArg ? Number(timeoutArg.split('=')[1]) : undefined;
+  if (timeoutSeconds !== undefined && !(Number.isFinite(timeoutSeconds) && timeoutSeconds > 0)) {
+    throw new Error(
+      `Invalid ${timeoutArg}, expected a positive number of seconds\n` +
+        'Usage: bun run mautic login [--no-pkce] [--timeout=<seconds>]'
+    );
+  }
+  const timeoutMs = timeoutSeconds !== undefined ? timeoutSeconds * 1000 : undefined;
+
+  const config = loadConfig();
+  if (!config.callbackUrl) {
+    throw new Error('MAUTIC_CALLBACK_URL is required for login');
+  }
+
+  const client = new MauticClient(config);
+  const auth = client.getAuth();
+
+  const state = auth.generateState();
+  const pkce = usePkce ? auth.generatePkceChallenge() : undefined;
+
+  const callbackUrl = config.callbackUrl;
+  const server = new OAuthCallbackServer({
+    callbackUrl,
+    state,
+    timeoutMs,
+  });
+  await server.start();
+  const codePromise = server.waitForCode();
+
+  console.log('🔐 Open this URL in your browser to log in to Mautic:\n');
+  console.log(`   ${auth.getAuthorizationUrl(state, pkce?.codeChallenge)}\n`);
+  console.log(`⏳ Waiting for the redirect to ${callbackUrl} ...`);
+
+  const code = await codePromise;
+  const tokenResponse = await auth.getAccessToken(code, pkce?.codeVerifier);
+  const tokens = await client.setTokens(tokenResponse);
+
+  console.log('\n✅ Logged in');
+
+  if (config.tokenStore) {
+    console.log('Tokens saved to MAUTIC_TOKEN_FILE');
+  } else {
+    console.log('Set MAUTIC_TOKEN_FILE to persist tokens automatically, or add these to .env:');
+    console.log(`MAUTIC_ACCESS_TOKEN=${tokens.accessToken}`);
+    console.log(`MAUTIC_REFRESH_TOKEN=${tokens.refreshToken ?? ''}`);
+    console.log(`MAUTIC_TOKEN_EXPIRES_AT=${tokens.tokenExpiresAt ?? ''}`);
+  }
+}
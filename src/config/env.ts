@@ -3,42 +3,95 @@
  * Load and validate environment variables
  */
 
-import type { MauticConfig } from '../types/mautic';
+import type { MauticConfig, MauticAuthMethod } from '../types/mautic';
+import { FileTokenStore } from '../api/token-store';
+
+const AUTH_METHODS: MauticAuthMethod[] = [
+  'oauth2-client-credentials',
+  'oauth2-auth-code',
+  'basic',
+  'bearer',
+];
+
+/**
+ * Config fields each auth method needs, with the env variable that provides them
+ */
+const REQUIRED_FIELDS: Record<MauticAuthMethod, Array<[keyof MauticConfig, string]>> = {
+  'oauth2-client-credentials': [
+    ['clientId', 'MAUTIC_CLIENT_ID'],
+    ['clientSecret', 'MAUTIC_CLIENT_SECRET'],
+  ],
+  'oauth2-auth-code': [
+    ['clientId', 'MAUTIC_CLIENT_ID'],
+    ['clientSecret', 'MAUTIC_CLIENT_SECRET'],
+    ['callbackUrl', 'MAUTIC_CALLBACK_URL'],
+  ],
+  basic: [
+    ['username', 'MAUTIC_USERNAME'],
+    ['password', 'MAUTIC_PASSWORD'],
+  ],
+  bearer: [['accessToken', 'MAUTIC_ACCESS_TOKEN']],
+};
 
 export function loadConfig(): MauticConfig {
-  const baseUrl = process.env.MAUTIC_BASE_URL;
-  const clientId = process.env.MAUTIC_CLIENT_ID;
-  const clientSecret = process.env.MAUTIC_CLIENT_SECRET;
-  const callbackUrl = process.env.MAUTIC_CALLBACK_URL;
+  const authMethod = (process.env.MAUTIC_AUTH_METHOD ||
+    'oauth2-client-credentials') as MauticAuthMethod;
 
-  if (!baseUrl || !clientId || !clientSecret || !callbackUrl) {
+  if (!AUTH_METHODS.includes(authMethod)) {
     throw new Error(
-      'Missing required environment variables: MAUTIC_BASE_URL, MAUTIC_CLIENT_ID, MAUTIC_CLIENT_SECRET, MAUTIC_CALLBACK_URL'
+      `Invalid MAUTIC_AUTH_METHOD: ${authMethod} (expected one of ${AUTH_METHODS.join(', ')})`
     );
   }
 
-  return {
-    baseUrl,
-    clientId,
-    clientSecret,
-    callbackUrl,
+  const config: MauticConfig = {
+    baseUrl: process.env.MAUTIC_BASE_URL || '',
+    authMethod,
+    clientId: process.env.MAUTIC_CLIENT_ID,
+    clientSecret: process.env.MAUTIC_CLIENT_SECRET,
+    callbackUrl: process.env.MAUTIC_CALLBACK_URL,
+    username: process.env.MAUTIC_USERNAME,
+    password: process.env.MAUTIC_PASSWORD,
     accessToken: process.env.MAUTIC_ACCESS_TOKEN,
     refreshToken: process.env.MAUTIC_REFRESH_TOKEN,
     tokenExpiresAt: process.env.MAUTIC_TOKEN_EXPIRES_AT
       ? parseInt(process.env.MAUTIC_TOKEN_EXPIRES_AT, 10)
       : undefined,
+    tokenStore: process.env.MAUTIC_TOKEN_FILE
+      ? new FileTokenStore(process.env.MAUTIC_TOKEN_FILE)
+      : undefined,
   };
+
+  const missing = [
+    ...(config.baseUrl ? [] : ['MAUTIC_BASE_URL']),
+    ...REQUIRED_FIELDS[authMethod].filter(([field]) => !config[field]).map(([, env]) => env),
+  ];
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required environment variables for ${authMethod} auth: ${missing.join(', ')}`
+    );
+  }
+
+  return config;
 }
 
 export function validateConfig(config: MauticConfig): boolean {
-  if (!config.baseUrl || !config.clientId || !config.clientSecret || !config.callbackUrl) {
+  const authMethod = config.authMethod || 'oauth2-client-credentials';
+
+  if (!config.baseUrl || !AUTH_METHODS.includes(authMethod)) {
+    return false;
+  }
+
+  if (REQUIRED_FIELDS[authMethod].some(([field]) => !config[field])) {
     return false;
   }
 
   // Validate URL format
   try {
     new URL(config.baseUrl);
-    new URL(config.callbackUrl);
+    if (config.callbackUrl) {
+      new URL(config.callbackUrl);
+    }
   } catch {
     return false;
   }
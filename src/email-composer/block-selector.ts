@@ -3,7 +3,19 @@
  * Selects appropriate email blocks based on criteria
  */
 
-import type { EmailBlock, BlockCategory, EmailTone } from '../types/email-composer';
+import type {
+  EmailBlock,
+  BlockCategory,
+  BlockVariant,
+  VariantChoice,
+  VariantAssignment,
+  VariantChoiceReason,
+  VariantExperiment,
+  VariantSelectionOptions,
+} from '../types/email-composer';
+import { DEFAULT_LOCALE, localeFallbacks, normalizeLocale } from './locale';
+import { VariableSubstitution, isEmptyValue } from './variable-substitution';
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -11,10 +23,12 @@ export class BlockSelector {
   private blocks: Map<string, EmailBlock>;
   private blocksByCategory: Map<BlockCategory, EmailBlock[]>;
   private blocksDir: string;
+  private variableSubstitution: VariableSubstitution;
 
   constructor(blocksDir?: string) {
     this.blocks = new Map();
     this.blocksByCategory = new Map();
+    this.variableSubstitution = new VariableSubstitution();
     this.blocksDir = blocksDir || join(process.cwd(), 'src/email-composer/blocks');
   }
 
@@ -87,12 +101,16 @@ export class BlockSelector {
 
   /**
    * Select a block by category and selector (tag, tone, or filename)
+   *
+   * With `variables`, variants are ranked by whether all their declared
+   * placeholders are non-empty, so a contact without a title skips
+   * "Dear {{title}} {{last_name}}," for the next variant that fits.
    */
   async selectBlock(
     category: BlockCategory,
     selector: string,
-    variantId?: string
-  ): Promise<{ block: EmailBlock; variant: any } | null> {
+    options: VariantSelectionOptions = {}
+  ): Promise<{ block: EmailBlock; variant: BlockVariant; choice: VariantChoice } | null> {
     // Try 1: Direct load by filename/id
     let block = await this.loadBlock(`${category}/${selector}`);
 
@@ -113,27 +131,138 @@ export class BlockSelector {
       return null;
     }
 
-    // Select variant
-    let variant;
-    if (variantId) {
-      variant = block.variants.find(v => v.id === variantId);
-    }
+    const selected = this.selectVariant(block, options);
+    return selected ? { block, ...selected } : null;
+  }
 
-    if (!variant && block.variants.length > 0) {
-      // Default to first variant or random selection
-      variant = block.variants[0];
-    }
+  /**
+   * Pick a variant of a block
+   *
+   * Only variants of the first locale along the fallback chain (de-AT → de →
+   * en) that the block has are considered; untagged variants are English.
+   * Among them, a preferred variant wins when its placeholders are filled.
+   * Next, an experiment assigns one of the complete variants to the contact.
+   * Otherwise the first complete variant is used, and if there is none, the
+   * one with the fewest empty placeholders. Without `variables` every variant
+   * counts as complete.
+   */
+  selectVariant(
+    block: EmailBlock,
+    options: VariantSelectionOptions = {}
+  ): { variant: BlockVariant; choice: VariantChoice } | null {
+    if (block.variants.length === 0) return null;
 
-    return variant ? { block, variant } : null;
+    const variantLocale = (variant: BlockVariant) => normalizeLocale(variant.locale || DEFAULT_LOCALE);
+    const locale = localeFallbacks(options.locale).find(candidate =>
+      block.variants.some(variant => variantLocale(variant) === candidate)
+    );
+    const candidates = locale ? block.variants.filter(variant => variantLocale(variant) === locale) : block.variants;
+
+    const { variables } = options;
+    const ranked = candidates.map((variant, index) => ({
+      variant,
+      index,
+      missing: variables ? this.findEmptyPlaceholders(variant, variables) : [],
+    }));
+
+    const preferredId = options.variantPreferences?.[block.id];
+    const preferred = ranked.find(r => r.variant.id === preferredId && r.missing.length === 0);
+    const assigned =
+      !preferred && options.experiment && options.email
+        ? this.assignVariant(
+            block,
+            options.email,
+            options.experiment,
+            ranked.filter(r => r.missing.length === 0).map(r => r.variant)
+          )
+        : null;
+    const chosen =
+      preferred ||
+      ranked.find(r => r.variant === assigned?.variant) ||
+      [...ranked].sort((a, b) => a.missing.length - b.missing.length || a.index - b.index)[0];
+
+    const reason: VariantChoiceReason = preferred
+      ? 'preferred'
+      : assigned
+        ? 'experiment'
+        : chosen.missing.length === 0
+          ? 'complete'
+          : 'fewest-missing';
+    const skipped = preferred
+      ? []
+      : ranked.filter(
+          r =>
+            r !== chosen &&
+            r.missing.length > 0 &&
+            (assigned !== null || r.index < chosen.index || r.variant.id === preferredId)
+        );
+
+    return {
+      variant: chosen.variant,
+      choice: {
+        block: block.id,
+        variant: chosen.variant.id,
+        locale: variantLocale(chosen.variant),
+        reason,
+        missing: chosen.missing,
+        skipped: skipped.map(r => r.variant.id),
+        ...(assigned && { assignment: assigned.assignment }),
+      },
+    };
   }
 
   /**
-   * Get random variant from a block (for A/B testing)
+   * Declared placeholders that would render as empty text, ignoring those with
+   * a default filter or inside an {{#if}} on the same path
    */
-  getRandomVariant(block: EmailBlock): any {
-    if (block.variants.length === 0) return null;
-    const randomIndex = Math.floor(Math.random() * block.variants.length);
-    return block.variants[randomIndex];
+  private findEmptyPlaceholders(variant: BlockVariant, variables: Record<string, any>): string[] {
+    const required = new Set(this.variableSubstitution.requiredPlaceholders(variant.text));
+    return (variant.placeholders || []).filter(
+      name => required.has(name) && isEmptyValue(this.variableSubstitution.getValue(name, variables))
+    );
+  }
+
+  /**
+   * Assign a variant for A/B testing by hashing the contact email with the
+   * experiment and block ids
+   *
+   * A contact keeps its variant across runs as long as the experiment id,
+   * the eligible variants and their weights stay the same. Returns null when
+   * the block is not part of the experiment or no variant has a weight.
+   */
+  assignVariant(
+    block: EmailBlock,
+    email: string,
+    experiment: VariantExperiment,
+    variants: BlockVariant[] = block.variants
+  ): { variant: BlockVariant; assignment: VariantAssignment } | null {
+    const split = experiment.splits ? experiment.splits[block.id] : {};
+    if (!split) return null;
+
+    const even = Object.keys(split).length === 0;
+    const weighted = variants
+      .map(variant => ({ variant, weight: even ? 1 : split[variant.id] ?? 0 }))
+      .filter(({ weight }) => Number.isFinite(weight) && weight > 0);
+    if (weighted.length === 0) return null;
+
+    const hash = createHash('sha256')
+      .update(`${experiment.id}:${block.id}:${email.trim().toLowerCase()}`)
+      .digest();
+    const bucket = hash.readUInt32BE(0) / 0x100000000;
+
+    const total = weighted.reduce((sum, { weight }) => sum + weight, 0);
+    let cumulative = 0;
+    const picked =
+      weighted.find(({ weight }) => (cumulative += weight / total) > bucket) || weighted[weighted.length - 1];
+
+    return {
+      variant: picked.variant,
+      assignment: {
+        experiment: experiment.id,
+        bucket,
+        weights: Object.fromEntries(weighted.map(({ variant, weight }) => [variant.id, weight])),
+      },
+    };
   }
 
   /**
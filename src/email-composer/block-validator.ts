@@ -0,0 +1,415 @@
+/**
+ * Block Library Validator
+ * Checks block files, audiences.json and event-details.json against their
+ * schemas and against each other: categories and ids match the file layout,
+ * audience selectors resolve to blocks, and placeholders are declared and can
+ * be produced by the composer
+ */
+
+import type {
+  BlockCategory,
+  BlockLibraryIssue,
+  BlockLibraryReport,
+  EmailBlock,
+} from '../types/email-composer';
+import { normalizeLocale } from './locale';
+import { TemplateError, VariableSubstitution } from './variable-substitution';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+export const BLOCK_CATEGORIES: BlockCategory[] = [
+  'greeting',
+  'opener',
+  'intention',
+  'event-info',
+  'value-proposition',
+  'cta',
+  'closing',
+];
+
+const TONES = ['formal', 'casual', 'personal'];
+
+const substitution = new VariableSubstitution();
+
+type Schema =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] }
+  | { type: 'record'; values: Schema };
+
+const STRING: Schema = { type: 'string' };
+const STRING_LIST: Schema = { type: 'array', items: STRING };
+
+const BLOCK_SCHEMA: Schema = {
+  type: 'object',
+  required: ['id', 'category', 'tags', 'variants'],
+  properties: {
+    id: STRING,
+    category: STRING, // Must match the directory, checked separately
+    tags: STRING_LIST,
+    tone: { type: 'string', enum: TONES },
+    variants: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'text'],
+        properties: { id: STRING, text: STRING, placeholders: STRING_LIST, use_case: STRING, locale: STRING },
+      },
+    },
+  },
+};
+
+const AUDIENCES_SCHEMA: Schema = {
+  type: 'object',
+  required: ['audiences'],
+  properties: {
+    audiences: {
+      type: 'record',
+      values: {
+        type: 'object',
+        required: ['name', 'tone', 'intention', 'valueProps', 'cta', 'eventInfo', 'tags'],
+        properties: {
+          name: STRING,
+          tone: { type: 'string', enum: TONES },
+          intention: STRING,
+          valueProps: STRING_LIST,
+          cta: STRING,
+          eventInfo: STRING,
+          tags: STRING_LIST,
+          subjectTemplate: STRING,
+          subjectTemplates: { type: 'record', values: STRING },
+        },
+      },
+    },
+  },
+};
+
+const EVENT_DETAILS_SCHEMA: Schema = {
+  type: 'object',
+  required: ['event'],
+  properties: {
+    event: {
+      type: 'object',
+      required: ['name', 'tagline', 'date', 'time', 'location', 'sectors', 'focus', 'organizer', 'website'],
+      properties: {
+        name: STRING,
+        tagline: STRING,
+        date: STRING,
+        time: STRING,
+        location: STRING,
+        sectors: STRING_LIST,
+        focus: STRING,
+        organizer: STRING,
+        website: STRING,
+        press_kit_url: STRING,
+        ticket_url: STRING,
+        contest_url: STRING,
+      },
+    },
+    features: { type: 'record', values: { type: 'object', properties: {} } },
+    nonprofit_context: { type: 'record', values: STRING },
+  },
+};
+
+export class BlockLibraryError extends Error {
+  readonly issues: BlockLibraryIssue[];
+
+  constructor(issues: BlockLibraryIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(
+      `Invalid block library: ${errors.map(issue => `${issue.file}: ${issue.message}`).join('; ')}`
+    );
+    this.name = 'BlockLibraryError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate the block and config directories
+ *
+ * `variables` are the names the composer fills in; placeholders outside that
+ * list are reported as warnings since they must come from contact fields or
+ * custom variables.
+ */
+export async function validateBlockLibrary(options: {
+  blocksDir: string;
+  configDir: string;
+  variables: string[];
+}): Promise<BlockLibraryReport> {
+  const issues: BlockLibraryIssue[] = [];
+  const error = (file: string, message: string) => issues.push({ severity: 'error', file, message });
+  const warning = (file: string, message: string) => issues.push({ severity: 'warning', file, message });
+  const variables = new Set(options.variables);
+
+  // Blocks
+  const blocks = new Map<BlockCategory, Array<{ file: string; block: EmailBlock }>>();
+  const ids = new Map<string, string>();
+
+  for (const directory of await listDirectory(options.blocksDir, 'directories')) {
+    if (!BLOCK_CATEGORIES.includes(directory as BlockCategory)) {
+      error(directory, `Unknown block category directory (expected one of ${BLOCK_CATEGORIES.join(', ')})`);
+      continue;
+    }
+    const category = directory as BlockCategory;
+
+    for (const name of await listDirectory(join(options.blocksDir, category), 'files')) {
+      const file = `${category}/${name}`;
+      const block = await readJson<EmailBlock>(join(options.blocksDir, file), file, error);
+      if (!block) continue;
+
+      const problems = checkSchema(block, BLOCK_SCHEMA, '');
+      if (problems.length > 0) {
+        problems.forEach(problem => error(file, problem));
+        continue;
+      }
+
+      if (block.category !== category) {
+        error(file, `Category "${block.category}" does not match directory "${category}"`);
+      }
+      const baseName = name.replace(/\.json$/, '');
+      if (!block.id.endsWith(`-${baseName}`)) {
+        error(file, `Id "${block.id}" should end with the file name ("-${baseName}")`);
+      }
+      const duplicate = ids.get(block.id);
+      if (duplicate) {
+        error(file, `Id "${block.id}" is already used by ${duplicate}`);
+      }
+      ids.set(block.id, file);
+
+      checkVariants(block, file, variables, error, warning);
+      blocks.set(category, [...(blocks.get(category) || []), { file, block }]);
+    }
+  }
+
+  // Audiences
+  const audiences = await readJson<any>(join(options.configDir, 'audiences.json'), 'audiences.json', error);
+  const audienceProblems = audiences ? checkSchema(audiences, AUDIENCES_SCHEMA, '') : [];
+  audienceProblems.forEach(problem => error('audiences.json', problem));
+
+  if (audiences && audienceProblems.length === 0) {
+    for (const [audienceType, config] of Object.entries<any>(audiences.audiences)) {
+      const selectors: Array<[BlockCategory, string, string]> = [
+        ['greeting', config.tone, 'tone'],
+        ['closing', config.tone, 'tone'],
+        ['opener', config.intention, 'intention'],
+        ['intention', config.intention, 'intention'],
+        ['event-info', config.eventInfo, 'eventInfo'],
+        ['cta', config.cta, 'cta'],
+        ...config.valueProps.map((selector: string): [BlockCategory, string, string] => [
+          'value-proposition',
+          selector,
+          'valueProps',
+        ]),
+      ];
+
+      for (const [category, selector, key] of selectors) {
+        if (!resolveSelector(blocks.get(category) || [], category, selector)) {
+          error(
+            'audiences.json',
+            `Audience "${audienceType}" ${key} "${selector}" matches no ${category} block (by file name, tag or tone)`
+          );
+        }
+      }
+
+      const subjects: Array<[string, string]> = [
+        ['subject', config.subjectTemplate || ''],
+        ...Object.entries<string>(config.subjectTemplates || {}).map(([locale, template]): [string, string] => {
+          if (!isLocale(locale)) {
+            error('audiences.json', `Audience "${audienceType}" has a subject for invalid locale "${locale}"`);
+          }
+          return [`${locale} subject`, template];
+        }),
+      ];
+
+      for (const [label, template] of subjects) {
+        const subject = extractPlaceholders(template);
+        if (subject instanceof TemplateError) {
+          error('audiences.json', `Audience "${audienceType}" ${label} has an invalid template: ${subject.message}`);
+          continue;
+        }
+        for (const tag of substitution.invalidTags(template)) {
+          warning('audiences.json', `Audience "${audienceType}" ${label} has invalid placeholder ${tag}, which is sent as written`);
+        }
+        for (const name of subject) {
+          if (!variables.has(rootName(name))) {
+            warning('audiences.json', `Audience "${audienceType}" ${label} uses {{${name}}}, which the composer does not produce`);
+          }
+        }
+      }
+    }
+  }
+
+  // Event details
+  const eventDetails = await readJson<any>(join(options.configDir, 'event-details.json'), 'event-details.json', error);
+  if (eventDetails) {
+    checkSchema(eventDetails, EVENT_DETAILS_SCHEMA, '').forEach(problem => error('event-details.json', problem));
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  return { issues, errors, warnings: issues.length - errors };
+}
+
+/**
+ * Find the block a selector picks, in the order BlockSelector tries:
+ * file name, then tag, then tone
+ */
+function resolveSelector(
+  blocks: Array<{ file: string; block: EmailBlock }>,
+  category: BlockCategory,
+  selector: string
+): EmailBlock | undefined {
+  return (
+    blocks.find(({ file }) => file === `${category}/${selector}.json`)?.block ||
+    blocks.find(({ block }) => block.tags.includes(selector))?.block ||
+    blocks.find(({ block }) => block.tone === selector)?.block
+  );
+}
+
+function checkVariants(
+  block: EmailBlock,
+  file: string,
+  variables: Set<string>,
+  error: (file: string, message: string) => void,
+  warning: (file: string, message: string) => void
+): void {
+  const variantIds = new Set<string>();
+
+  for (const variant of block.variants) {
+    const label = `Variant "${variant.id}"`;
+    if (variantIds.has(variant.id)) {
+      error(file, `${label} is defined more than once`);
+    }
+    variantIds.add(variant.id);
+
+    if (variant.locale !== undefined && !isLocale(variant.locale)) {
+      error(file, `${label} has invalid locale "${variant.locale}"`);
+    }
+
+    const used = extractPlaceholders(variant.text);
+    if (used instanceof TemplateError) {
+      error(file, `${label} has an invalid template: ${used.message}`);
+      continue;
+    }
+    for (const tag of substitution.invalidTags(variant.text)) {
+      warning(file, `${label} has invalid placeholder ${tag}, which is sent as written`);
+    }
+    const declared = new Set(variant.placeholders || []);
+
+    for (const name of used) {
+      if (!declared.has(name)) {
+        error(file, `${label} uses {{${name}}} but does not declare it in placeholders`);
+      }
+      if (!variables.has(rootName(name))) {
+        warning(file, `${label} uses {{${name}}}, which the composer does not produce; pass it as a contact field or custom variable`);
+      }
+    }
+    for (const name of declared) {
+      if (!used.includes(name)) {
+        error(file, `${label} declares placeholder "${name}" that its text does not use`);
+      }
+    }
+  }
+}
+
+function extractPlaceholders(text: string): string[] | TemplateError {
+  try {
+    return substitution.extractPlaceholders(text);
+  } catch (e) {
+    if (e instanceof TemplateError) return e;
+    throw e;
+  }
+}
+
+function isLocale(locale: string): boolean {
+  try {
+    normalizeLocale(locale);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Dotted paths such as features.pitch_contest.benefits are produced by their first segment
+function rootName(path: string): string {
+  return path.split('.')[0];
+}
+
+/**
+ * Check a value against a schema and return one message per problem
+ */
+function checkSchema(value: unknown, schema: Schema, path: string): string[] {
+  const at = path || 'document';
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${at} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at} is "${value}", expected one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${at} should be an array`];
+      if (schema.minItems && value.length < schema.minItems) {
+        return [`${at} should have at least ${schema.minItems} item(s)`];
+      }
+      return value.flatMap((item, i) => checkSchema(item, schema.items, `${path}[${i}]`));
+
+    case 'record':
+      if (!isObject(value)) return [`${at} should be an object`];
+      return Object.entries(value).flatMap(([key, item]) =>
+        checkSchema(item, schema.values, path ? `${path}.${key}` : key)
+      );
+
+    case 'object': {
+      if (!isObject(value)) return [`${at} should be an object`];
+      const problems = (schema.required || [])
+        .filter(key => value[key] === undefined)
+        .map(key => `${path ? `${path}.` : ''}${key} is required`);
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (value[key] !== undefined) {
+          problems.push(...checkSchema(value[key], propertySchema, path ? `${path}.${key}` : key));
+        }
+      }
+      return problems;
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function listDirectory(path: string, kind: 'files' | 'directories'): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(path, { withFileTypes: true });
+    return entries
+      .filter(entry => (kind === 'directories' ? entry.isDirectory() : entry.name.endsWith('.json')))
+      .map(entry => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+async function readJson<T>(
+  path: string,
+  file: string,
+  error: (file: string, message: string) => void
+): Promise<T | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(path, 'utf-8');
+  } catch {
+    error(file, 'File not found');
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(content) as T;
+  } catch (e) {
+    error(file, `Invalid JSON: ${e instanceof Error ? e.message : e}`);
+    return undefined;
+  }
+}
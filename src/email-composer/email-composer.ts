@@ -9,9 +9,14 @@ import type {
   ComposedEmail,
   BatchEmailResult,
   AudienceConfigs,
+  BlockLibraryReport,
+  ComposerInitOptions,
   EventDetails,
+  VariantChoice,
 } from '../types/email-composer';
 import { BlockSelector } from './block-selector';
+import { BlockLibraryError, validateBlockLibrary } from './block-validator';
+import { DEFAULT_LOCALE, formatDate, formatTime, localeFallbacks, normalizeLocale } from './locale';
 import { VariableSubstitution } from './variable-substitution';
 import { promises as fs } from 'fs';
 import { join } from 'path';
@@ -22,10 +27,12 @@ export class EmailComposer {
   private audienceConfigs: AudienceConfigs;
   private eventDetails: EventDetails;
   private configDir: string;
+  private blocksDir: string;
 
   constructor(configDir?: string, blocksDir?: string) {
     this.configDir = configDir || join(process.cwd(), 'src/email-composer/config');
-    this.blockSelector = new BlockSelector(blocksDir);
+    this.blocksDir = blocksDir || join(process.cwd(), 'src/email-composer/blocks');
+    this.blockSelector = new BlockSelector(this.blocksDir);
     this.variableSubstitution = new VariableSubstitution();
     this.audienceConfigs = {};
     this.eventDetails = { event: {} as any };
@@ -33,8 +40,18 @@ export class EmailComposer {
 
   /**
    * Initialize composer by loading configurations
+   *
+   * In strict mode the block library is validated first and a BlockLibraryError
+   * is thrown instead of falling back to defaults.
    */
-  async initialize(): Promise<void> {
+  async initialize(options: ComposerInitOptions = {}): Promise<void> {
+    if (options.strict) {
+      const report = await this.validateLibrary();
+      if (report.errors > 0) {
+        throw new BlockLibraryError(report.issues);
+      }
+    }
+
     await this.loadAudienceConfigs();
     await this.loadEventDetails();
     await this.blockSelector.loadAllBlocks();
@@ -69,10 +86,30 @@ export class EmailComposer {
     }
   }
 
+  /**
+   * Validate blocks, audiences.json and event-details.json
+   */
+  async validateLibrary(): Promise<BlockLibraryReport> {
+    return validateBlockLibrary({
+      blocksDir: this.blocksDir,
+      configDir: this.configDir,
+      variables: Object.keys(this.prepareVariables({ audience_type: '', email: '' })),
+    });
+  }
+
   /**
    * Prepare variables for substitution
    */
-  private prepareVariables(contact: ContactData, options: EmailCompositionOptions = {}): Record<string, any> {
+  private prepareVariables(
+    contact: ContactData,
+    options: EmailCompositionOptions = {},
+    locale: string = DEFAULT_LOCALE
+  ): Record<string, any> {
+    // The configured date and time are written for the default locale
+    const eventDate = contact.event_date || this.eventDetails.event?.date || '';
+    const eventTime = this.eventDetails.event?.time || '';
+    const localize = locale !== DEFAULT_LOCALE;
+
     const variables: Record<string, any> = {
       // Contact fields
       first_name: contact.first_name || '',
@@ -91,14 +128,18 @@ export class EmailComposer {
 
       // Event fields
       event_name: this.eventDetails.event?.name || '',
-      event_date: contact.event_date || this.eventDetails.event?.date || '',
-      event_time: this.eventDetails.event?.time || '',
+      event_date: localize ? formatDate(eventDate, 'long', locale) : eventDate,
+      event_time: localize ? formatTime(eventTime, locale) : eventTime,
       event_location: this.eventDetails.event?.location || '',
       event_website: this.eventDetails.event?.website || '',
       ticket_url: this.eventDetails.event?.ticket_url || '',
       contest_url: this.eventDetails.event?.contest_url || '',
       press_kit_url: this.eventDetails.event?.press_kit_url || '',
 
+      // Event details for dotted paths, e.g. {{event.sectors | list}}
+      event: this.eventDetails.event || {},
+      features: this.eventDetails.features || {},
+
       // Optional contact fields
       contact_email: contact.contact_email || contact.email,
 
@@ -117,13 +158,19 @@ export class EmailComposer {
   /**
    * Generate subject line for email
    */
-  private generateSubject(audienceType: string, contact: ContactData): string {
+  private generateSubject(audienceType: string, contact: ContactData, locale: string = DEFAULT_LOCALE): string {
     const config = this.audienceConfigs[audienceType];
     const eventName = this.eventDetails.event?.name || 'Event';
 
-    if (config?.subjectTemplate) {
-      const variables = this.prepareVariables(contact);
-      return this.variableSubstitution.substitute(config.subjectTemplate, variables);
+    const localized = Object.entries(config?.subjectTemplates || {});
+    const template =
+      localeFallbacks(locale)
+        .map(candidate => localized.find(([key]) => normalizeLocale(key) === candidate)?.[1])
+        .find(Boolean) || config?.subjectTemplate;
+
+    if (template) {
+      const variables = this.prepareVariables(contact, {}, locale);
+      return this.variableSubstitution.substitute(template, variables, { locale });
     }
 
     // Default subject templates by audience type
@@ -157,89 +204,109 @@ export class EmailComposer {
     }
 
     const tone = options.tone || audienceConfig.tone;
-    const variables = this.prepareVariables(contact, options);
+    const locale = normalizeLocale(options.locale || contact.locale || DEFAULT_LOCALE);
+    const variables = this.prepareVariables(contact, options, locale);
+    const selection = {
+      variantPreferences: options.variantPreferences,
+      variables,
+      locale,
+      experiment: options.experiment,
+      email: contact.email,
+    };
+    const substitutionOptions = { ...options, locale };
 
     // Select blocks
     const greeting = await this.blockSelector.selectBlock(
       'greeting',
-      options.blockOverrides?.greeting || tone
+      options.blockOverrides?.greeting || tone,
+      selection
     );
 
     const opener = await this.blockSelector.selectBlock(
       'opener',
-      options.blockOverrides?.opener || audienceConfig.intention
+      options.blockOverrides?.opener || audienceConfig.intention,
+      selection
     );
 
     const intention = await this.blockSelector.selectBlock(
       'intention',
-      options.blockOverrides?.intention || audienceConfig.intention
+      options.blockOverrides?.intention || audienceConfig.intention,
+      selection
     );
 
     const eventInfo = await this.blockSelector.selectBlock(
       'event-info',
-      options.blockOverrides?.eventInfo || audienceConfig.eventInfo || 'brief'
+      options.blockOverrides?.eventInfo || audienceConfig.eventInfo || 'brief',
+      selection
     );
 
     // Value propositions (can be multiple)
     const valuePropsSelectors = options.blockOverrides?.valueProps || audienceConfig.valueProps || [];
     const valueProps = await Promise.all(
       valuePropsSelectors.map(selector =>
-        this.blockSelector.selectBlock('value-proposition', selector)
+        this.blockSelector.selectBlock('value-proposition', selector, selection)
       )
     );
 
     const cta = await this.blockSelector.selectBlock(
       'cta',
-      options.blockOverrides?.cta || audienceConfig.cta
+      options.blockOverrides?.cta || audienceConfig.cta,
+      selection
     );
 
     const closing = await this.blockSelector.selectBlock(
       'closing',
-      options.blockOverrides?.closing || tone
+      options.blockOverrides?.closing || tone,
+      selection
     );
 
     // Assemble email blocks
     const blocks: string[] = [];
     const blocksUsed: any = {};
+    const variantsUsed: VariantChoice[] = [];
 
     if (greeting?.variant) {
       const text = this.variableSubstitution.substitute(
         greeting.variant.text,
         variables,
-        options
+        substitutionOptions
       );
       blocks.push(text);
       blocksUsed.greeting = greeting.block.id;
+      variantsUsed.push(greeting.choice);
     }
 
     if (opener?.variant) {
       const text = this.variableSubstitution.substitute(
         opener.variant.text,
         variables,
-        options
+        substitutionOptions
       );
       blocks.push(text);
       blocksUsed.opener = opener.block.id;
+      variantsUsed.push(opener.choice);
     }
 
     if (intention?.variant) {
       const text = this.variableSubstitution.substitute(
         intention.variant.text,
         variables,
-        options
+        substitutionOptions
       );
       blocks.push(text);
       blocksUsed.intention = intention.block.id;
+      variantsUsed.push(intention.choice);
     }
 
     if (eventInfo?.variant) {
       const text = this.variableSubstitution.substitute(
         eventInfo.variant.text,
         variables,
-        options
+        substitutionOptions
       );
       blocks.push(text);
       blocksUsed.eventInfo = eventInfo.block.id;
+      variantsUsed.push(eventInfo.choice);
     }
 
     // Add value propositions
@@ -249,10 +316,11 @@ export class EmailComposer {
         const text = this.variableSubstitution.substitute(
           vp.variant.text,
           variables,
-          options
+          substitutionOptions
         );
         blocks.push(text);
         valuePropsUsed.push(vp.block.id);
+        variantsUsed.push(vp.choice);
       }
     }
     if (valuePropsUsed.length > 0) {
@@ -263,24 +331,26 @@ export class EmailComposer {
       const text = this.variableSubstitution.substitute(
         cta.variant.text,
         variables,
-        options
+        substitutionOptions
       );
       blocks.push(text);
       blocksUsed.cta = cta.block.id;
+      variantsUsed.push(cta.choice);
     }
 
     if (closing?.variant) {
       const text = this.variableSubstitution.substitute(
         closing.variant.text,
         variables,
-        options
+        substitutionOptions
       );
       blocks.push(text);
       blocksUsed.closing = closing.block.id;
+      variantsUsed.push(closing.choice);
     }
 
     // Generate subject
-    const subject = this.generateSubject(audienceType, contact);
+    const subject = this.generateSubject(audienceType, contact, locale);
 
     // Assemble final email
     const body = blocks.join('\n\n');
@@ -291,8 +361,17 @@ export class EmailComposer {
       metadata: {
         audience_type: audienceType,
         tone,
+        locale,
+        ...(options.experiment && { experiment: options.experiment.id }),
         blocks_used: blocksUsed,
-        variables_used: this.variableSubstitution.extractPlaceholders(body),
+        variables_used: [
+          ...new Set(
+            [greeting, opener, intention, eventInfo, ...valueProps, cta, closing].flatMap(selected =>
+              selected ? this.variableSubstitution.extractPlaceholders(selected.variant.text) : []
+            )
+          ),
+        ],
+        variants_used: variantsUsed,
       },
     };
   }
@@ -308,8 +387,9 @@ export class EmailComposer {
     const results: BatchEmailResult[] = [];
 
     for (const contact of contacts) {
+      const options = perContactOptions?.get(contact.email) || globalOptions;
+
       try {
-        const options = perContactOptions?.get(contact.email) || globalOptions;
         const email = await this.composeEmail(contact, options);
 
         results.push({
@@ -326,8 +406,10 @@ export class EmailComposer {
             metadata: {
               audience_type: contact.audience_type,
               tone: 'casual',
+              locale: options.locale || contact.locale || DEFAULT_LOCALE,
               blocks_used: {},
               variables_used: [],
+              variants_used: [],
             },
           },
           error: error as Error,
@@ -0,0 +1,100 @@
+/**
+ * Locale Helpers
+ * Fallback chains and locale-aware formatting for composed emails
+ */
+
+export const DEFAULT_LOCALE = 'en';
+
+const TIME_PATTERN = /\b(\d{1,2}):(\d{2})(?:\s*([AaPp])\.?[Mm]\.?)?(?![\w:])/g;
+
+/**
+ * Canonicalize a BCP 47 tag, e.g. "de-at" → "de-AT"
+ */
+export function normalizeLocale(locale: string): string {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(locale.replace(/_/g, '-'));
+    if (canonical) return canonical;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid locale: "${locale}"`);
+}
+
+/**
+ * Locales to try in order: the locale, its parents, then the default
+ *
+ * @example
+ * localeFallbacks('de-AT'); // ['de-AT', 'de', 'en']
+ */
+export function localeFallbacks(locale: string = DEFAULT_LOCALE): string[] {
+  const parts = normalizeLocale(locale).split('-');
+  const chain: string[] = [];
+
+  for (let i = parts.length; i > 0; i--) {
+    chain.push(parts.slice(0, i).join('-'));
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) {
+    chain.push(DEFAULT_LOCALE);
+  }
+
+  return chain;
+}
+
+/**
+ * Format a date in one of Intl's date styles, or return it unchanged when it
+ * is not a date
+ *
+ * Date-only ISO strings are calendar dates, so they are formatted in UTC;
+ * anything else Date can parse keeps its local calendar day.
+ */
+export function formatDate(
+  value: unknown,
+  style: NonNullable<Intl.DateTimeFormatOptions['dateStyle']>,
+  locale: string = DEFAULT_LOCALE
+): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) return String(value);
+
+  const isCalendarDate = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const utc = isCalendarDate ? date : new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+  return new Intl.DateTimeFormat(locale, { dateStyle: style, timeZone: 'UTC' }).format(utc);
+}
+
+/**
+ * Format times of day, e.g. "9:00 AM - 6:00 PM" → "09:00 - 18:00" for de
+ *
+ * Dates are formatted as their local time; in strings every "H:MM" with an
+ * optional AM/PM is replaced and the rest of the text is kept.
+ */
+export function formatTime(value: unknown, locale: string = DEFAULT_LOCALE): string {
+  if (value === null || value === undefined) return '';
+
+  const format = (hours: number, minutes: number) =>
+    new Intl.DateTimeFormat(locale, { timeStyle: 'short', timeZone: 'UTC' })
+      .format(new Date(Date.UTC(1970, 0, 1, hours, minutes)))
+      .replace(/\u202f/g, ' '); // Some locales use a narrow no-break space before AM/PM
+
+  if (value instanceof Date) {
+    return format(value.getHours(), value.getMinutes());
+  }
+
+  return String(value).replace(TIME_PATTERN, (match, h: string, m: string, meridiem?: string) => {
+    let hours = Number(h);
+    const minutes = Number(m);
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return match;
+      hours = (hours % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+    }
+    return hours < 24 && minutes < 60 ? format(hours, minutes) : match;
+  });
+}
+
+/**
+ * Join values as a conjunction list, e.g. "a, b, and c" (en) or "a, b und c" (de)
+ */
+export function formatList(values: string[], locale: string = DEFAULT_LOCALE): string {
+  return new Intl.ListFormat(locale, { style: 'long', type: 'conjunction' }).format(values);
+}
@@ -1,26 +1,136 @@
 /**
  * Variable Substitution Module
  * Replaces {{placeholder}} patterns with actual values
+ *
+ * Template syntax:
+ * - {{first_name}}, {{event.sectors}}: values, with dotted paths into objects
+ * - {{first_name | default: "there"}}, {{event_date | date: "short"}}: filters, applied left to right
+ *   and formatted for options.locale
+ * - {{#if title}}...{{else}}...{{/if}}: rendered when the value is non-empty
+ * - {{#each event.sectors}}- {{this}}{{/each}}: loops, with {{@index}}, {{@first}} and {{@last}}
+ * - \{{: a literal "{{"
+ *
+ * Value tags that are not a placeholder, e.g. {{first-name}} or {{ }}, are
+ * kept as literal text; validate() reports them. Other syntax errors throw a
+ * TemplateError.
  */
 
 import type { SubstitutionOptions } from '../types/email-composer';
+import { DEFAULT_LOCALE, formatDate, formatList, formatTime } from './locale';
+
+type FilterArgument = string | number;
+
+interface Expression {
+  path: string;
+  filters: Array<{ name: string; args: FilterArgument[] }>;
+  source: string; // The tag as written, kept for keepPlaceholders
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; expression: Expression }
+  | { type: 'invalid'; source: string } // Unparseable value tag, rendered as written
+  | { type: 'section'; keyword: 'if' | 'each'; expression: Expression; body: TemplateNode[]; else: TemplateNode[] };
+
+interface LoopScope {
+  item: any;
+  index: number;
+  count: number;
+}
+
+const TAG_PATTERN = /\\\{\{|\{\{([\s\S]*?)\}\}/g;
+const PATH_PATTERN = /^(?:@index|@first|@last|this(?:\.\w+)*|\w+(?:\.\w+)*)$/;
+const DATE_STYLES = ['full', 'long', 'medium', 'short'] as const;
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const FILTERS: Record<string, (value: any, args: FilterArgument[], locale: string) => any> = {
+  default: (value, [fallback = '']) => (isEmptyValue(value) ? fallback : value),
+  upper: (value, _args, locale) => toText(value).toLocaleUpperCase(locale),
+  lower: (value, _args, locale) => toText(value).toLocaleLowerCase(locale),
+  capitalize: (value, _args, locale) => {
+    const text = toText(value);
+    return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+  },
+  trim: value => toText(value).trim(),
+  join: (value, [separator = ', ']) =>
+    Array.isArray(value) ? value.map(toText).join(String(separator)) : toText(value),
+  list: (value, _args, locale) => (Array.isArray(value) ? formatList(value.map(toText), locale) : toText(value)),
+  date: (value, [style = 'long'], locale) => {
+    if (!(DATE_STYLES as readonly string[]).includes(String(style))) {
+      throw new TemplateError(`Unknown date style "${style}" (use ${DATE_STYLES.join(', ')})`);
+    }
+    return formatDate(value, style as (typeof DATE_STYLES)[number], locale);
+  },
+  time: (value, _args, locale) => formatTime(value, locale),
+  escape: value => toText(value).replace(/[&<>"']/g, char => HTML_ENTITIES[char]),
+};
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
 
 export class VariableSubstitution {
+  private templates = new Map<string, TemplateNode[]>();
+
   /**
    * Extract all placeholder variable names from text
+   *
+   * Includes section conditions and loop sources, but not loop-local names
+   * such as {{this}} or {{@index}}.
    */
   extractPlaceholders(text: string): string[] {
-    const pattern = /\{\{(\w+)\}\}/g;
-    const matches: string[] = [];
-    let match;
+    const names: string[] = [];
+    visit(this.parse(text), new Set(), (path) => {
+      if (!names.includes(path)) names.push(path);
+    });
+    return names;
+  }
+
+  /**
+   * Placeholders that render as empty text when their value is empty: those
+   * without a default filter and outside an {{#if}} or {{#each}} on the same path
+   */
+  requiredPlaceholders(text: string): string[] {
+    const names: string[] = [];
+    visit(this.parse(text), new Set(), (path, required) => {
+      if (required && !names.includes(path)) names.push(path);
+    });
+    return names;
+  }
 
-    while ((match = pattern.exec(text)) !== null) {
-      if (!matches.includes(match[1])) {
-        matches.push(match[1]);
+  /**
+   * Tags that are not valid placeholders and are kept as literal text,
+   * e.g. {{first-name}}
+   */
+  invalidTags(text: string): string[] {
+    const tags: string[] = [];
+    const collect = (nodes: TemplateNode[]) => {
+      for (const node of nodes) {
+        if (node.type === 'invalid' && !tags.includes(node.source)) tags.push(node.source);
+        if (node.type === 'section') {
+          collect(node.body);
+          collect(node.else);
+        }
       }
-    }
+    };
+    collect(this.parse(text));
+    return tags;
+  }
 
-    return matches;
+  /**
+   * Look up a dotted path in the variables
+   */
+  getValue(path: string, variables: Record<string, any>): any {
+    return resolvePath(path, variables, []).value;
   }
 
   /**
@@ -31,41 +141,40 @@ export class VariableSubstitution {
     variables: Record<string, any>,
     options: SubstitutionOptions = {}
   ): string {
-    const { strict = false, keepPlaceholders = false, warnOnMissing = true } = options;
-    const pattern = /\{\{(\w+)\}\}/g;
-
-    return text.replace(pattern, (match, varName) => {
-      if (variables.hasOwnProperty(varName)) {
-        const value = variables[varName];
-        return value !== null && value !== undefined ? String(value) : '';
-      }
-
-      // Variable not found
-      if (strict) {
-        throw new Error(`Missing required variable: ${varName}`);
-      }
-
-      if (warnOnMissing) {
-        console.warn(`Variable not found: ${varName}`);
-      }
-
-      return keepPlaceholders ? match : '';
-    });
+    return this.render(this.parse(text), variables, options, []);
   }
 
   /**
    * Validate that all placeholders in text have corresponding variables
+   *
+   * Placeholders with a default, and those guarded by a section on the same
+   * path, may be missing. Tags kept as literal text are reported as errors.
    */
   validate(text: string, variables: Record<string, any>): {
     valid: boolean;
     missing: string[];
+    errors: string[];
   } {
-    const placeholders = this.extractPlaceholders(text);
-    const missing = placeholders.filter(p => !variables.hasOwnProperty(p));
+    let placeholders: string[];
+    let invalid: string[];
+    try {
+      placeholders = this.requiredPlaceholders(text);
+      invalid = this.invalidTags(text);
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return { valid: false, missing: [], errors: [error.message] };
+      }
+      throw error;
+    }
+
+    const missing = placeholders.filter(p => !resolvePath(p, variables, []).found);
+
+    const errors = invalid.map(tag => `Invalid placeholder ${tag}`);
 
     return {
-      valid: missing.length === 0,
+      valid: missing.length === 0 && errors.length === 0,
       missing,
+      errors,
     };
   }
 
@@ -79,6 +188,305 @@ export class VariableSubstitution {
   ): string[] {
     return texts.map(text => this.substitute(text, variables, options));
   }
+
+  /**
+   * Parse a template, caching the result per text
+   */
+  private parse(text: string): TemplateNode[] {
+    let nodes = this.templates.get(text);
+    if (!nodes) {
+      nodes = parseTemplate(text);
+      this.templates.set(text, nodes);
+    }
+    return nodes;
+  }
+
+  private render(
+    nodes: TemplateNode[],
+    variables: Record<string, any>,
+    options: SubstitutionOptions,
+    scopes: LoopScope[]
+  ): string {
+    const {
+      strict = false,
+      keepPlaceholders = false,
+      warnOnMissing = true,
+      locale = DEFAULT_LOCALE,
+    } = options;
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        output += node.text;
+        continue;
+      }
+
+      if (node.type === 'invalid') {
+        output += node.source;
+        continue;
+      }
+
+      const { path, filters, source } = node.expression;
+      const { found, value } = resolvePath(path, variables, scopes);
+
+      if (node.type === 'section') {
+        // A missing section value is simply empty
+        const result = applyFilters(value, filters, locale);
+
+        if (node.keyword === 'if') {
+          output += this.render(isEmptyValue(result) ? node.else : node.body, variables, options, scopes);
+        } else if (Array.isArray(result) && result.length > 0) {
+          output += result
+            .map((item, index) =>
+              this.render(node.body, variables, options, [...scopes, { item, index, count: result.length }])
+            )
+            .join('');
+        } else {
+          output += this.render(node.else, variables, options, scopes);
+        }
+        continue;
+      }
+
+      if (!found && !filters.some(filter => filter.name === 'default')) {
+        // Variable not found
+        if (strict) {
+          throw new Error(`Missing required variable: ${path}`);
+        }
+
+        if (warnOnMissing) {
+          console.warn(`Variable not found: ${path}`);
+        }
+
+        output += keepPlaceholders ? source : '';
+        continue;
+      }
+
+      output += toText(applyFilters(value, filters, locale));
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Whether a value counts as empty for {{#if}}, default and variant selection
+ */
+export function isEmptyValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return value === null || value === undefined || value === false || String(value).trim() === '';
+}
+
+function parseTemplate(text: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: Array<{ node: Extract<TemplateNode, { type: 'section' }>; inElse: boolean }> = [];
+  let current = root;
+  let position = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = current[current.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else current.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    pushText(text.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    // Escaped \{{
+    if (match[1] === undefined) {
+      pushText('{{');
+      continue;
+    }
+
+    const tag = match[1].trim();
+
+    if (tag.startsWith('#')) {
+      const [, keyword, rest] = /^#(\w+)\s*([\s\S]*)$/.exec(tag) || [];
+      if (keyword !== 'if' && keyword !== 'each') {
+        throw new TemplateError(`Unknown section ${match[0]} (use {{#if}} or {{#each}})`);
+      }
+      const node: Extract<TemplateNode, { type: 'section' }> = {
+        type: 'section',
+        keyword,
+        expression: parseExpression(rest, match[0]),
+        body: [],
+        else: [],
+      };
+      current.push(node);
+      open.push({ node, inElse: false });
+      current = node.body;
+    } else if (tag.startsWith('/')) {
+      const section = open.pop();
+      if (!section || section.node.keyword !== tag.slice(1).trim()) {
+        throw new TemplateError(
+          section ? `${match[0]} closes {{#${section.node.keyword}}}` : `${match[0]} has no opening section`
+        );
+      }
+      const parent = open[open.length - 1];
+      current = parent ? (parent.inElse ? parent.node.else : parent.node.body) : root;
+    } else if (tag === 'else') {
+      const section = open[open.length - 1];
+      if (!section || section.inElse) {
+        throw new TemplateError('{{else}} outside of a section or used twice');
+      }
+      section.inElse = true;
+      current = section.node.else;
+    } else if (!PATH_PATTERN.test(splitOutsideQuotes(tag, '|')[0].trim())) {
+      current.push({ type: 'invalid', source: match[0] });
+    } else {
+      current.push({ type: 'value', expression: parseExpression(tag, match[0]) });
+    }
+  }
+
+  pushText(text.slice(position));
+
+  if (open.length > 0) {
+    throw new TemplateError(`Unclosed {{#${open[open.length - 1].node.keyword}}} section`);
+  }
+
+  return root;
+}
+
+/**
+ * Parse `path | filter | filter: "arg", 2`
+ */
+function parseExpression(expression: string, source: string): Expression {
+  const [path, ...filterParts] = splitOutsideQuotes(expression, '|').map(part => part.trim());
+
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateError(`Invalid placeholder ${source}`);
+  }
+
+  const filters = filterParts.map(part => {
+    const [, name, args] = /^(\w+)\s*(?::([\s\S]*))?$/.exec(part) || [];
+    if (!name || !FILTERS[name]) {
+      throw new TemplateError(`Unknown filter "${part}" in ${source}`);
+    }
+    return {
+      name,
+      args: args === undefined ? [] : splitOutsideQuotes(args, ',').map(arg => parseArgument(arg.trim(), source)),
+    };
+  });
+
+  return { path, filters, source };
+}
+
+function parseArgument(arg: string, source: string): FilterArgument {
+  const quoted = /^"((?:[^"\\]|\\.)*)"$|^'((?:[^'\\]|\\.)*)'$/.exec(arg);
+  if (quoted) {
+    return (quoted[1] ?? quoted[2]).replace(/\\(.)/g, '$1');
+  }
+  if (/^-?\d+(\.\d+)?$/.test(arg)) {
+    return Number(arg);
+  }
+  throw new TemplateError(`Filter arguments must be quoted strings or numbers: ${arg} in ${source}`);
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let part = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        part += char + (text[++i] ?? '');
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(part);
+      part = '';
+      continue;
+    }
+    part += char;
+  }
+
+  parts.push(part);
+  return parts;
+}
+
+/**
+ * Call `found` for every variable path in the template, with whether it is
+ * required (rendered without a default and not guarded by a section)
+ */
+function visit(
+  nodes: TemplateNode[],
+  guarded: Set<string>,
+  found: (path: string, required: boolean) => void
+): void {
+  for (const node of nodes) {
+    if (node.type === 'text' || node.type === 'invalid') continue;
+
+    const { path, filters } = node.expression;
+    const isVariable = !path.startsWith('@') && path !== 'this' && !path.startsWith('this.');
+
+    if (node.type === 'value') {
+      if (isVariable) {
+        found(path, !guarded.has(path) && !filters.some(filter => filter.name === 'default'));
+      }
+      continue;
+    }
+
+    if (isVariable) found(path, false);
+    visit(node.body, new Set([...guarded, path]), found);
+    visit(node.else, guarded, found);
+  }
+}
+
+function resolvePath(
+  path: string,
+  variables: Record<string, any>,
+  scopes: LoopScope[]
+): { found: boolean; value: any } {
+  const notFound = { found: false, value: undefined };
+  const scope = scopes[scopes.length - 1];
+
+  if (path.startsWith('@')) {
+    if (!scope) return notFound;
+    const value =
+      path === '@index' ? scope.index : path === '@first' ? scope.index === 0 : scope.index === scope.count - 1;
+    return { found: true, value };
+  }
+
+  const [head, ...rest] = path.split('.');
+  let value: any;
+
+  if (head === 'this') {
+    if (!scope) return notFound;
+    value = scope.item;
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(variables, head)) return notFound;
+    value = variables[head];
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return notFound;
+    }
+    value = value[key];
+  }
+
+  return { found: true, value };
+}
+
+function applyFilters(value: any, filters: Expression['filters'], locale: string): any {
+  return filters.reduce((result, { name, args }) => FILTERS[name](result, args, locale), value);
+}
+
+/**
+ * Render a value as text; plain objects have no text form and render as
+ * empty text instead of "[object Object]"
+ */
+function toText(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value))) return '';
+  return String(value);
 }
 
 export default VariableSubstitution;
@@ -22,7 +22,7 @@ async function main() {
       start: 0,
     });
     console.log(`Found ${contactsResponse.total} contacts`);
-    console.log('First 5 contacts:', Object.keys(contactsResponse.contacts));
+    console.log('First 5 contacts:', contactsResponse.contacts.map(c => c.id));
 
     // Example 2: Create a new contact
     console.log('\n👤 Creating a new contact...');
@@ -54,12 +54,12 @@ async function main() {
     if (newContact.id) {
       console.log(`\n📊 Fetching activity for contact ${newContact.id}...`);
       const activity = await mautic.contacts.getActivity(newContact.id);
-      console.log('Activity events:', activity);
+      console.log(`Activity events: ${activity.total}`);
     }
 
-    // Save updated tokens if they changed
+    // Save updated tokens if they changed (MAUTIC_TOKEN_FILE does this automatically)
     const updatedConfig = mautic.getConfig();
-    if (updatedConfig.accessToken !== config.accessToken) {
+    if (updatedConfig.accessToken !== config.accessToken && !config.tokenStore) {
       console.log('\n🔐 Access token was refreshed');
       console.log('Save these to your .env file:');
       console.log(`MAUTIC_ACCESS_TOKEN=${updatedConfig.accessToken}`);
@@ -7,7 +7,7 @@
  * 3. Send a targeted email campaign
  */
 
-import MauticSDK from '../index';
+import MauticSDK, { SegmentFilters } from '../index';
 import { loadConfig } from '../config/env';
 
 interface ResearcherContact {
@@ -29,22 +29,14 @@ async function runBiotechEventCampaign() {
   try {
     // Step 1: Create or get a segment for biotech researchers
     console.log('📊 Creating segment for biotech researchers...');
+    const tagIds = await mautic.tags.resolveIds(['biotech', 'researcher'], { create: true });
     const segment = await mautic.segments.create({
       name: 'Biotech Event 2025 - Target Audience',
       alias: 'biotech-event-2025',
       description: 'Researchers and professionals in biotechnology for upcoming event',
       isPublished: true,
-      filters: [
-        {
-          glue: 'and',
-          field: 'tags',
-          object: 'lead',
-          type: 'tags',
-          operator: 'in',
-          properties: {},
-          filter: 'biotech,researcher',
-        },
-      ],
+      // Tag filters take tag IDs, not names
+      filters: [SegmentFilters.tags(tagIds)],
     });
     console.log(`✅ Segment created with ID: ${segment.id}\n`);
 
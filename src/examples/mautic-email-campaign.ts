@@ -3,11 +3,10 @@
  * Demonstrates using Email Composer with Mautic API
  */
 
-import MauticSDK from '../index';
+import MauticSDK, { SegmentFilters } from '../index';
 import { EmailComposer } from '../email-composer/email-composer';
 import { loadConfig } from '../config/env';
 import type { ContactData } from '../types/email-composer';
-import type { MauticContact } from '../types/mautic';
 
 async function main() {
   console.log('🧬 Mautic Email Campaign with Modular Composer\n');
@@ -25,22 +24,14 @@ async function main() {
   try {
     // Step 1: Create a segment for biotech VCs
     console.log('📊 Creating segment for VCs...');
+    const tagIds = await mautic.tags.resolveIds(['vc', 'investor', 'biotech'], { create: true });
     const vcSegment = await mautic.segments.create({
       name: 'Biotech VCs - Summit Outreach 2024',
       alias: 'biotech-vcs-summit-2024',
       description: 'Venture capitalists interested in biotech for summit outreach',
       isPublished: true,
-      filters: [
-        {
-          glue: 'and',
-          field: 'tags',
-          object: 'lead',
-          type: 'tags',
-          operator: 'in',
-          properties: {},
-          filter: 'vc,investor,biotech',
-        },
-      ],
+      // Tag filters take tag IDs, not names
+      filters: [SegmentFilters.tags(tagIds)],
     });
     console.log(`✅ Segment created with ID: ${vcSegment.id}\n`);
 
@@ -0,0 +1,188 @@
+/**
+ * Contact Importer
+ * Turns CSV/XLSX contact lists into composer contacts and Mautic contacts,
+ * rejecting rows with invalid emails or missing required fields
+ *
+ * @example
+ * const importer = new ContactImporter({
+ *   columns: { email: 'E-Mail', first_name: 'Vorname', last_name: 'Nachname', audience_type: 'Zielgruppe' },
+ *   audienceTypes: composer.getAudienceTypes(),
+ * });
+ * const { contacts, mauticContacts, rejected } = await importer.importFile('contacts.xlsx');
+ */
+
+import type { ContactData } from '../types/email-composer';
+import type { ContactCreateParams } from '../types/mautic';
+import type {
+  ContactImportMapping,
+  ContactImportResult,
+  CsvParseOptions,
+  ImportedContact,
+  RejectedRow,
+  SourceRow,
+} from '../types/contact-import';
+import { parseCsv } from './csv-parser';
+import { parseXlsx } from './xlsx-reader';
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ContactData field -> Mautic core field
+const DEFAULT_MAUTIC_FIELDS: Record<string, string> = {
+  email: 'email',
+  first_name: 'firstname',
+  last_name: 'lastname',
+  title: 'title',
+  company_name: 'company',
+  organization_name: 'company',
+};
+
+export class ContactImporter {
+  private mapping: ContactImportMapping;
+
+  constructor(mapping: ContactImportMapping) {
+    this.mapping = mapping;
+  }
+
+  /**
+   * Import a .csv or .xlsx file, chosen by extension
+   */
+  async importFile(path: string, options: CsvParseOptions & { sheet?: string } = {}): Promise<ContactImportResult> {
+    const extension = extname(path).toLowerCase();
+
+    if (extension === '.xlsx') {
+      return this.importXlsx(await fs.readFile(path), options.sheet);
+    }
+    if (extension === '.csv' || extension === '.txt') {
+      return this.importCsv(await fs.readFile(path, 'utf-8'), options);
+    }
+
+    throw new Error(`Unsupported import file type: ${extension || path}`);
+  }
+
+  importCsv(text: string, options: CsvParseOptions = {}): ContactImportResult {
+    return this.importRows(parseCsv(text, options));
+  }
+
+  importXlsx(data: Uint8Array, sheet?: string): ContactImportResult {
+    return this.importRows(parseXlsx(data, sheet));
+  }
+
+  /**
+   * Map and validate parsed rows
+   */
+  importRows(rows: SourceRow[]): ContactImportResult {
+    const imported: ImportedContact[] = [];
+    const rejected: RejectedRow[] = [];
+    const seenEmails = new Map<string, number>();
+
+    for (const row of rows) {
+      const contact = this.mapContact(row.values);
+      const errors = this.validate(contact);
+
+      const firstLine = seenEmails.get(contact.email);
+      if (contact.email && firstLine !== undefined) {
+        errors.push(`Duplicate email ${contact.email} (first seen on line ${firstLine})`);
+      }
+
+      if (errors.length > 0) {
+        rejected.push({ line: row.line, values: row.values, errors });
+        continue;
+      }
+
+      seenEmails.set(contact.email, row.line);
+      imported.push({
+        line: row.line,
+        contact,
+        mautic: this.toMauticContact(contact, row.values),
+      });
+    }
+
+    return {
+      rows: imported,
+      contacts: imported.map(r => r.contact),
+      mauticContacts: imported.map(r => r.mautic),
+      rejected,
+    };
+  }
+
+  private mapContact(values: Record<string, string>): ContactData {
+    const contact: Record<string, any> = { ...this.mapping.defaults };
+
+    for (const [field, column] of Object.entries(this.mapping.columns)) {
+      const value = readColumn(values, column);
+      if (value !== '') {
+        contact[field] = value;
+      }
+    }
+
+    contact.email = (contact.email || '').toLowerCase();
+    contact.audience_type = contact.audience_type || this.mapping.audienceType || '';
+
+    return contact as ContactData;
+  }
+
+  private validate(contact: ContactData): string[] {
+    const errors: string[] = [];
+
+    if (!contact.email) {
+      errors.push('Missing email');
+    } else if (!EMAIL_PATTERN.test(contact.email)) {
+      errors.push(`Invalid email: ${contact.email}`);
+    }
+
+    if (!contact.audience_type) {
+      errors.push('Missing audience_type');
+    } else if (this.mapping.audienceTypes && !this.mapping.audienceTypes.includes(contact.audience_type)) {
+      errors.push(`Unknown audience_type: ${contact.audience_type}`);
+    }
+
+    for (const field of this.mapping.required || []) {
+      if (field !== 'email' && field !== 'audience_type' && !contact[field]) {
+        errors.push(`Missing ${field}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private toMauticContact(contact: ContactData, values: Record<string, string>): ContactCreateParams {
+    const fieldMap = { ...DEFAULT_MAUTIC_FIELDS, ...this.mapping.mauticFields };
+    const mautic: ContactCreateParams = { email: contact.email };
+
+    for (const [field, mauticField] of Object.entries(fieldMap)) {
+      const value = contact[field];
+      // organization_name and company_name both map to company; keep the first one set
+      if (value && mautic[mauticField] === undefined) {
+        mautic[mauticField] = value;
+      }
+    }
+
+    const tags = [
+      ...(this.mapping.tags || []),
+      ...(this.mapping.tagsColumn ? splitList(readColumn(values, this.mapping.tagsColumn)) : []),
+    ];
+    if (tags.length > 0) {
+      mautic.tags = [...new Set(tags)];
+    }
+
+    return mautic;
+  }
+}
+
+/**
+ * Read a cell by header, ignoring case and surrounding whitespace
+ */
+function readColumn(values: Record<string, string>, column: string): string {
+  const wanted = column.trim().toLowerCase();
+  const key = Object.keys(values).find(k => k.trim().toLowerCase() === wanted);
+  return key === undefined ? '' : String(values[key]).trim();
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,92 @@
+/**
+ * CSV Parser
+ * RFC 4180 parsing with quoted fields, embedded newlines and delimiter detection
+ */
+
+import type { CsvParseOptions, SourceRow } from '../types/contact-import';
+
+/**
+ * Parse CSV text into rows keyed by the header line
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): SourceRow[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter || detectDelimiter(content);
+  const records = parseRecords(content, delimiter);
+
+  if (records.length === 0) {
+    return [];
+  }
+
+  const [header, ...rows] = records;
+  const headers = header.cells.map(h => h.trim());
+
+  return rows
+    .filter(row => row.cells.some(cell => cell.trim() !== ''))
+    .map(row => ({
+      line: row.line,
+      values: Object.fromEntries(headers.map((h, i) => [h, row.cells[i] ?? ''])),
+    }));
+}
+
+/**
+ * Split CSV content into records, tracking the line each record starts on
+ */
+function parseRecords(
+  content: string,
+  delimiter: string
+): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+
+  return records;
+}
+
+function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const candidates = [',', ';', '\t'];
+  const counts = candidates.map(d => firstLine.split(d).length);
+  return candidates[counts.indexOf(Math.max(...counts))];
+}
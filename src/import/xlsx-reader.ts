@@ -0,0 +1,206 @@
+/**
+ * XLSX Reader
+ * Reads the first (or a named) worksheet of an .xlsx workbook into rows keyed by
+ * the header row. Only cell values are read; formatting and formulas are ignored.
+ */
+
+import { inflateRawSync } from 'zlib';
+import type { SourceRow } from '../types/contact-import';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Parse an .xlsx file into rows keyed by the header row
+ */
+export function parseXlsx(data: Uint8Array, sheetName?: string): SourceRow[] {
+  const files = readZip(Buffer.from(data));
+  const read = (path: string) => files.get(path)?.toString('utf8');
+
+  const sheetPath = resolveSheetPath(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels'), sheetName);
+  const sheetXml = read(sheetPath);
+  if (!sheetXml) {
+    throw new Error(`Worksheet not found in workbook: ${sheetName || sheetPath}`);
+  }
+
+  const sharedStrings = parseSharedStrings(read('xl/sharedStrings.xml'));
+  const rows = parseSheetRows(sheetXml, sharedStrings);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const [header, ...dataRows] = rows;
+  const columns = [...header.cells.entries()].map(([col, name]) => [col, name.trim()] as const);
+
+  return dataRows
+    .filter(row => [...row.cells.values()].some(value => value.trim() !== ''))
+    .map(row => ({
+      line: row.line,
+      values: Object.fromEntries(columns.map(([col, name]) => [name, row.cells.get(col) ?? ''])),
+    }));
+}
+
+/**
+ * Extract all files from a zip archive using its central directory
+ */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const files = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid XLSX file: corrupt zip central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid XLSX file: bad local header for ${name}`);
+    }
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, raw);
+    } else if (method === 8) {
+      files.set(name, inflateRawSync(raw));
+    } else {
+      throw new Error(`Invalid XLSX file: unsupported compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus an optional comment of up to 64 KiB
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Invalid XLSX file: not a zip archive');
+}
+
+/**
+ * Find the worksheet part for a sheet name, defaulting to the first sheet
+ */
+function resolveSheetPath(workbookXml?: string, relsXml?: string, sheetName?: string): string {
+  if (!workbookXml || !relsXml) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+
+  const sheets = [...workbookXml.matchAll(/<sheet\b([^>]*)\/?>/g)].map(m => ({
+    name: decodeXml(attr(m[1], 'name') || ''),
+    relId: attr(m[1], 'r:id'),
+  }));
+  const sheet = sheetName ? sheets.find(s => s.name === sheetName) : sheets[0];
+  if (!sheet) {
+    throw new Error(`Worksheet not found in workbook: ${sheetName}`);
+  }
+
+  for (const match of relsXml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (attr(match[1], 'Id') === sheet.relId) {
+      const target = attr(match[1], 'Target') || '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  throw new Error(`Worksheet not found in workbook: ${sheet.name}`);
+}
+
+function parseSharedStrings(xml?: string): string[] {
+  if (!xml) {
+    return [];
+  }
+  // Rich text splits a string into several <t> runs
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => readText(m[1]));
+}
+
+function parseSheetRows(
+  xml: string,
+  sharedStrings: string[]
+): Array<{ line: number; cells: Map<number, string> }> {
+  const rows: Array<{ line: number; cells: Map<number, string> }> = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const line = Number(attr(rowMatch[1], 'r')) || rows.length + 1;
+    const cells = new Map<number, string>();
+    let nextColumn = 0;
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(cellMatch[1], 'r');
+      const column = ref ? columnIndex(ref) : nextColumn;
+      nextColumn = column + 1;
+      cells.set(column, readCellValue(attr(cellMatch[1], 't'), cellMatch[2] || '', sharedStrings));
+    }
+
+    rows.push({ line, cells });
+  }
+
+  return rows;
+}
+
+function readCellValue(type: string | undefined, inner: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return readText(inner);
+  }
+
+  const value = decodeXml(inner.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+  if (type === 's') {
+    return sharedStrings[Number(value)] ?? '';
+  }
+  if (type === 'b') {
+    return value === '1' ? 'TRUE' : 'FALSE';
+  }
+  return value;
+}
+
+function readText(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(m => decodeXml(m[1])).join('');
+}
+
+/**
+ * Convert a cell reference such as `AB12` to a zero-based column index
+ */
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function attr(attributes: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return attributes.match(new RegExp(`(?:^|\\s)${escaped}="([^"]*)"`))?.[1];
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return entity[1].toLowerCase() === 'x'
+      ? String.fromCodePoint(parseInt(entity.slice(2), 16))
+      : String.fromCodePoint(parseInt(entity.slice(1), 10));
+  });
+}
@@ -3,13 +3,18 @@
  * Main entry point and SDK export
  */
 
-import type { MauticConfig } from './types/mautic';
+import type { MauticConfig, QueueStats } from './types/mautic';
 import { MauticClient } from './api/client';
 import { MauticAuth } from './api/auth';
 import { MauticContacts } from './api/contacts';
 import { MauticEmails } from './api/emails';
 import { MauticSegments } from './api/segments';
 import { MauticCampaigns } from './api/campaigns';
+import { MauticCompanies } from './api/companies';
+import { MauticForms } from './api/forms';
+import { MauticPages } from './api/pages';
+import { MauticWebhooks } from './api/webhooks';
+import { MauticTags } from './api/tags';
 
 export class MauticSDK {
   private client: MauticClient;
@@ -18,6 +23,11 @@ export class MauticSDK {
   public emails: MauticEmails;
   public segments: MauticSegments;
   public campaigns: MauticCampaigns;
+  public companies: MauticCompanies;
+  public forms: MauticForms;
+  public pages: MauticPages;
+  public webhooks: MauticWebhooks;
+  public tags: MauticTags;
 
   constructor(config: MauticConfig) {
     this.client = new MauticClient(config);
@@ -26,6 +36,11 @@ export class MauticSDK {
     this.emails = new MauticEmails(this.client);
     this.segments = new MauticSegments(this.client);
     this.campaigns = new MauticCampaigns(this.client);
+    this.companies = new MauticCompanies(this.client);
+    this.forms = new MauticForms(this.client);
+    this.pages = new MauticPages(this.client);
+    this.webhooks = new MauticWebhooks(this.client);
+    this.tags = new MauticTags(this.client);
   }
 
   /**
@@ -35,6 +50,13 @@ export class MauticSDK {
     return this.client;
   }
 
+  /**
+   * Get request queue depth shared by all resource modules
+   */
+  getQueueStats(): QueueStats {
+    return this.client.getQueueStats();
+  }
+
   /**
    * Update SDK configuration (useful for updating tokens)
    */
@@ -52,12 +74,54 @@ export class MauticSDK {
 
 // Re-export types
 export * from './types/mautic';
+export * from './types/contact-import';
+export * from './types/webhooks';
+export * from './types/engagement-report';
 export { MauticClient } from './api/client';
 export { MauticAuth } from './api/auth';
+export {
+  MauticError,
+  MauticApiError,
+  MauticAuthError,
+  MauticNotFoundError,
+  MauticValidationError,
+  MauticRateLimitError,
+  MauticNetworkError,
+  MauticWebhookError,
+  MauticCampaignGraphError,
+  MauticSegmentFilterError,
+} from './api/errors';
+export { MemoryTokenStore, FileTokenStore } from './api/token-store';
+export { Where } from './api/filters';
 export { MauticContacts } from './api/contacts';
 export { MauticEmails } from './api/emails';
 export { MauticSegments } from './api/segments';
+export { SegmentFilters, validateSegmentFilters } from './api/segment-filters';
+export { MauticTags } from './api/tags';
 export { MauticCampaigns } from './api/campaigns';
+export {
+  CampaignBuilder,
+  CampaignEvents,
+  CampaignEventNode,
+  validateCampaign,
+} from './api/campaign-builder';
+export { MauticCompanies } from './api/companies';
+export { MauticForms } from './api/forms';
+export { MauticPages } from './api/pages';
+export { MauticWebhooks } from './api/webhooks';
+export {
+  MauticWebhookReceiver,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  parseWebhookPayload,
+} from './webhooks/webhook-receiver';
+export { ContactImporter } from './import/contact-importer';
+export {
+  EngagementReporter,
+  buildEngagementReport,
+  formatEngagementReport,
+  wilsonInterval,
+} from './reporting/engagement-report';
 
 // Default export
 export default MauticSDK;
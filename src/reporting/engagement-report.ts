@@ -0,0 +1,218 @@
+/**
+ * Engagement Report
+ * Joins recorded sends with Mautic's email stats and rolls them up by audience
+ * type, block variant and campaign, with Wilson score confidence intervals
+ *
+ * @example
+ * const reporter = new EngagementReporter(mautic.emails);
+ * const report = await reporter.generate(
+ *   sent.map(({ contactId, email }) => ({ emailId: 12, contactId, campaign: 'summit-2025', metadata: email.metadata }))
+ * );
+ * await fs.writeFile('report.csv', formatEngagementReport(report, 'csv'));
+ */
+
+import type { MauticEmails } from '../api/emails';
+import { countEngagement } from '../api/emails';
+import type { EmailContactStats, EmailEngagementCounts } from '../types/mautic';
+import type {
+  EngagementDimension,
+  EngagementGroup,
+  EngagementMetric,
+  EngagementRecord,
+  EngagementReport,
+  EngagementReportFormat,
+  EngagementReportOptions,
+  EngagementSend,
+  RateInterval,
+} from '../types/engagement-report';
+
+const DIMENSIONS: EngagementDimension[] = ['audience_type', 'variant', 'campaign'];
+const METRICS: Array<EngagementMetric | 'clickToOpen'> = [
+  'read',
+  'clicked',
+  'clickToOpen',
+  'bounced',
+  'unsubscribed',
+  'failed',
+];
+
+// Two-sided normal quantiles for the supported confidence levels
+const Z_SCORES: Record<string, number> = {
+  '0.8': 1.2816,
+  '0.9': 1.6449,
+  '0.95': 1.96,
+  '0.99': 2.5758,
+};
+
+export class EngagementReporter {
+  constructor(private emails: Pick<MauticEmails, 'listRecipientStats'>) {}
+
+  /**
+   * Fetch the stats of every email in `sends` and build the report
+   */
+  async generate(sends: EngagementSend[], options: EngagementReportOptions = {}): Promise<EngagementReport> {
+    const statsByKey = new Map<string, EmailContactStats>();
+    for (const emailId of new Set(sends.map(send => send.emailId))) {
+      for (const stats of await this.emails.listRecipientStats(emailId)) {
+        statsByKey.set(`${stats.emailId}:${stats.contactId}`, stats);
+      }
+    }
+
+    const records: EngagementRecord[] = [];
+    const unmatched: EngagementSend[] = [];
+    for (const send of sends) {
+      const stats = statsByKey.get(`${send.emailId}:${send.contactId}`);
+      if (stats) records.push({ send, stats });
+      else unmatched.push(send);
+    }
+
+    return { ...buildEngagementReport(records, options), unmatched };
+  }
+}
+
+/**
+ * Roll up joined sends and stats into groups per dimension
+ */
+export function buildEngagementReport(
+  records: EngagementRecord[],
+  options: EngagementReportOptions = {}
+): EngagementReport {
+  const confidence = options.confidence ?? 0.95;
+  const z = Z_SCORES[String(confidence)];
+  if (z === undefined) {
+    throw new Error(`Unsupported confidence level: ${confidence} (use ${Object.keys(Z_SCORES).join(', ')})`);
+  }
+
+  const groups: EngagementGroup[] = [];
+  for (const dimension of options.dimensions || DIMENSIONS) {
+    const byKey = new Map<string, EmailContactStats[]>();
+    for (const record of records) {
+      for (const key of groupKeys(record.send, dimension)) {
+        byKey.set(key, [...(byKey.get(key) || []), record.stats]);
+      }
+    }
+
+    const keys = [...byKey.keys()].sort();
+    for (const key of keys) {
+      groups.push(toGroup(dimension, key, countEngagement(byKey.get(key)!), z));
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    confidence,
+    total: toGroup('total', 'all', countEngagement(records.map(r => r.stats)), z),
+    groups,
+    unmatched: [],
+  };
+}
+
+/**
+ * Serialize a report as pretty-printed JSON or as CSV with one row per group
+ */
+export function formatEngagementReport(report: EngagementReport, format: EngagementReportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const header = [
+    'dimension',
+    'key',
+    'sent',
+    'read',
+    'clicked',
+    'bounced',
+    'unsubscribed',
+    'failed',
+    ...METRICS.flatMap(metric => [`${metric}_rate`, `${metric}_low`, `${metric}_high`]),
+  ];
+  const rows = [report.total, ...report.groups].map(group => [
+    group.dimension,
+    group.key,
+    group.sent,
+    group.read,
+    group.clicked,
+    group.bounced,
+    group.unsubscribed,
+    group.failed,
+    ...METRICS.flatMap(metric => {
+      const { rate, low, high } = group.rates[metric];
+      return [rate, low, high];
+    }),
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Wilson score interval for `successes` out of `trials`
+ *
+ * Stays inside [0, 1] and behaves for small groups and rates near 0 or 1,
+ * where the normal approximation does not.
+ */
+export function wilsonInterval(successes: number, trials: number, z = 1.96): RateInterval {
+  if (trials === 0) {
+    return { rate: 0, low: 0, high: 1 };
+  }
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    rate: round(p),
+    low: round(Math.max(0, center - margin)),
+    high: round(Math.min(1, center + margin)),
+  };
+}
+
+function toGroup(
+  dimension: EngagementGroup['dimension'],
+  key: string,
+  counts: EmailEngagementCounts,
+  z: number
+): EngagementGroup {
+  return {
+    dimension,
+    key,
+    ...counts,
+    rates: {
+      read: wilsonInterval(counts.read, counts.sent, z),
+      clicked: wilsonInterval(counts.clicked, counts.sent, z),
+      clickToOpen: wilsonInterval(counts.clicked, counts.read, z),
+      bounced: wilsonInterval(counts.bounced, counts.sent, z),
+      unsubscribed: wilsonInterval(counts.unsubscribed, counts.sent, z),
+      failed: wilsonInterval(counts.failed, counts.sent, z),
+    },
+  };
+}
+
+/**
+ * Keys a send is counted under; a send counts once for every variant it used
+ */
+function groupKeys(send: EngagementSend, dimension: EngagementDimension): string[] {
+  switch (dimension) {
+    case 'audience_type':
+      return [send.audienceType || send.metadata?.audience_type || '(unknown)'];
+    case 'campaign':
+      return [send.campaign || '(none)'];
+    case 'variant': {
+      // Metadata recorded before variants_used existed only has block ids
+      const chosen = (send.metadata?.variants_used || []).map(choice => `${choice.block}/${choice.variant}`);
+      const variants =
+        send.variants || (chosen.length > 0 ? chosen : Object.values(send.metadata?.blocks_used || {}).flat());
+      return variants.length > 0 ? [...new Set(variants)] : ['(none)'];
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
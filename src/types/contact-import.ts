@@ -0,0 +1,47 @@
+/**
+ * Contact Import Type Definitions
+ * Map spreadsheet rows to composer ContactData and Mautic contacts
+ */
+
+import type { ContactData } from './email-composer';
+import type { ContactCreateParams } from './mautic';
+
+export interface ContactImportMapping {
+  // ContactData field -> source column header (matched case-insensitively)
+  columns: Record<string, string>;
+  audienceType?: string; // Used when no audience_type column is mapped or the cell is empty
+  defaults?: Partial<ContactData>; // e.g. sender_name for every row
+  required?: string[]; // ContactData fields that must be filled (email and audience_type always are)
+  audienceTypes?: string[]; // Allowed audience types, e.g. EmailComposer.getAudienceTypes()
+  mauticFields?: Record<string, string>; // ContactData field -> Mautic field, extends the defaults
+  tags?: string[]; // Tags added to every Mautic contact
+  tagsColumn?: string; // Column with comma-separated tags
+}
+
+export interface SourceRow {
+  line: number; // 1-based line (CSV) or row number (XLSX) in the source file
+  values: Record<string, string>; // Header -> cell value
+}
+
+export interface ImportedContact {
+  line: number;
+  contact: ContactData;
+  mautic: ContactCreateParams;
+}
+
+export interface RejectedRow {
+  line: number;
+  values: Record<string, string>;
+  errors: string[];
+}
+
+export interface ContactImportResult {
+  rows: ImportedContact[];
+  contacts: ContactData[]; // Ready for EmailComposer.composeBatch
+  mauticContacts: ContactCreateParams[]; // Ready for contacts.batchCreateOrUpdate
+  rejected: RejectedRow[];
+}
+
+export interface CsvParseOptions {
+  delimiter?: string; // Auto-detected from the header line (`,`, `;` or tab) if omitted
+}
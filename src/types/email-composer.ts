@@ -16,6 +16,7 @@ export interface BlockVariant {
   text: string;
   placeholders?: string[];
   use_case?: string;
+  locale?: string; // BCP 47 tag, e.g. "de" or "de-AT" (default: en)
 }
 
 export type BlockCategory =
@@ -53,6 +54,9 @@ export interface AudienceConfig {
   eventInfo: string;
   tags: string[];
   subjectTemplate?: string;
+  subjectTemplates?: {
+    [locale: string]: string; // Localized subjects, tried along the locale fallback chain before subjectTemplate
+  };
 }
 
 export interface AudienceConfigs {
@@ -119,6 +123,7 @@ export interface ContactData {
   // Optional
   contact_email?: string;
   event_date?: string;
+  locale?: string; // BCP 47 tag, e.g. "de-AT"
 
   // Custom fields
   [key: string]: any;
@@ -126,6 +131,7 @@ export interface ContactData {
 
 export interface EmailCompositionOptions {
   tone?: EmailTone;
+  locale?: string; // Overrides contact.locale
   customVariables?: Record<string, string>;
   blockOverrides?: {
     greeting?: string;
@@ -139,6 +145,7 @@ export interface EmailCompositionOptions {
   variantPreferences?: {
     [blockId: string]: string; // variantId
   };
+  experiment?: VariantExperiment; // Sticky A/B assignment; variantPreferences still win
   strict?: boolean; // Throw error on missing variables
   keepPlaceholders?: boolean; // Keep {{var}} if not found
 }
@@ -149,6 +156,8 @@ export interface ComposedEmail {
   metadata: {
     audience_type: string;
     tone: EmailTone;
+    locale: string; // Requested locale; variants_used has the locale each block actually used
+    experiment?: string; // Experiment id, when variants were assigned by an experiment
     blocks_used: {
       greeting?: string;
       opener?: string;
@@ -159,15 +168,64 @@ export interface ComposedEmail {
       closing?: string;
     };
     variables_used: string[];
+    variants_used: VariantChoice[]; // In the order the blocks appear in the body
   };
 }
 
+/**
+ * An A/B test across block variants
+ *
+ * Each contact is assigned by hashing its email with the experiment and block
+ * ids, so re-running a batch gives every contact the same variants.
+ */
+export interface VariantExperiment {
+  id: string;
+  splits?: {
+    [blockId: string]: {
+      [variantId: string]: number; // Relative weight; unlisted variants are left out, {} splits evenly
+    };
+  }; // Blocks in the experiment (default: every block, split evenly)
+}
+
+export interface VariantAssignment {
+  experiment: string;
+  bucket: number; // The contact's hash position in [0, 1)
+  weights: { [variantId: string]: number }; // Variants that were eligible, with their weights
+}
+
+/**
+ * Why a variant was picked:
+ * - preferred: named in variantPreferences and all its placeholders are filled
+ * - experiment: assigned by a weighted split among the complete variants
+ * - complete: first variant whose declared placeholders are all non-empty
+ * - fewest-missing: no variant is complete, so the one with the fewest empty placeholders
+ */
+export type VariantChoiceReason = 'preferred' | 'experiment' | 'complete' | 'fewest-missing';
+
+export interface VariantChoice {
+  block: string; // Block id
+  variant: string; // Variant id
+  locale: string; // Locale of the chosen variant, after fallback
+  reason: VariantChoiceReason;
+  missing: string[]; // Declared placeholders of the chosen variant that were empty
+  skipped: string[]; // Variants passed over because of empty placeholders
+  assignment?: VariantAssignment; // Set when reason is experiment
+}
+
 export interface BatchEmailResult {
   contact: ContactData;
   email: ComposedEmail;
   error?: Error;
 }
 
+export interface VariantSelectionOptions {
+  variantPreferences?: EmailCompositionOptions['variantPreferences'];
+  locale?: string; // Only variants of the first locale in its fallback chain that the block has are considered
+  experiment?: VariantExperiment;
+  email?: string; // Contact email, hashed for experiment assignment
+  variables?: Record<string, any>; // Prepared variables, used to skip variants with empty placeholders
+}
+
 export interface BlockSelector {
   category: BlockCategory;
   selector: string; // Tag, filename, or tone
@@ -178,4 +236,21 @@ export interface SubstitutionOptions {
   strict?: boolean;
   keepPlaceholders?: boolean;
   warnOnMissing?: boolean;
+  locale?: string; // For the date, time, list and case filters (default: en)
+}
+
+export interface ComposerInitOptions {
+  strict?: boolean; // Validate blocks and config, throw BlockLibraryError on errors
+}
+
+export interface BlockLibraryIssue {
+  severity: 'error' | 'warning';
+  file: string; // Relative to the blocks or config directory
+  message: string;
+}
+
+export interface BlockLibraryReport {
+  issues: BlockLibraryIssue[];
+  errors: number;
+  warnings: number;
 }
@@ -0,0 +1,53 @@
+/**
+ * Engagement Report Type Definitions
+ * Roll up email stats by audience, block variant and campaign
+ */
+
+import type { ComposedEmail } from './email-composer';
+import type { EmailContactStats, EmailEngagementCounts } from './mautic';
+
+export type EngagementDimension = 'audience_type' | 'variant' | 'campaign';
+
+export type EngagementMetric = 'read' | 'clicked' | 'bounced' | 'unsubscribed' | 'failed';
+
+// What was sent to whom, recorded when sending a composed email
+export interface EngagementSend {
+  emailId: number;
+  contactId: number;
+  audienceType?: string; // Defaults to metadata.audience_type
+  variants?: string[]; // Defaults to block/variant from metadata.variants_used, else metadata.blocks_used
+  campaign?: string;
+  metadata?: ComposedEmail['metadata'];
+}
+
+export interface EngagementRecord {
+  send: EngagementSend;
+  stats: EmailContactStats;
+}
+
+export interface RateInterval {
+  rate: number;
+  low: number; // Wilson score interval bounds
+  high: number;
+}
+
+export interface EngagementGroup extends EmailEngagementCounts {
+  dimension: EngagementDimension | 'total';
+  key: string;
+  rates: Record<EngagementMetric | 'clickToOpen', RateInterval>; // clickToOpen is clicked / read, the rest are per sent
+}
+
+export interface EngagementReportOptions {
+  dimensions?: EngagementDimension[]; // Default: all
+  confidence?: number; // 0.8, 0.9, 0.95 (default) or 0.99
+}
+
+export interface EngagementReport {
+  generatedAt: string;
+  confidence: number;
+  total: EngagementGroup;
+  groups: EngagementGroup[];
+  unmatched: EngagementSend[]; // Sends without a Mautic stats row
+}
+
+export type EngagementReportFormat = 'json' | 'csv';
@@ -4,12 +4,65 @@
 
 export interface MauticConfig {
   baseUrl: string;
-  clientId: string;
-  clientSecret: string;
-  callbackUrl: string;
+  authMethod?: MauticAuthMethod; // Defaults to oauth2-client-credentials
+  clientId?: string;
+  clientSecret?: string;
+  callbackUrl?: string;
+  username?: string; // Basic auth
+  password?: string; // Basic auth
   accessToken?: string;
   refreshToken?: string;
   tokenExpiresAt?: number;
+  retry?: RetryOptions;
+  rateLimit?: RateLimitOptions;
+  tokenStore?: TokenStore;
+  onTokenRefreshed?: (tokens: StoredTokens) => void | Promise<void>;
+}
+
+export type MauticAuthMethod =
+  | 'oauth2-client-credentials'
+  | 'oauth2-auth-code'
+  | 'basic'
+  | 'bearer';
+
+export interface StoredTokens {
+  accessToken: string;
+  refreshToken?: string;
+  tokenExpiresAt?: number;
+}
+
+export interface TokenStore {
+  load(): Promise<StoredTokens | null>;
+  save(tokens: StoredTokens): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number; // Total attempts including the first request
+  baseDelayMs?: number; // Delay before the first retry
+  maxDelayMs?: number; // Upper bound for a single backoff delay
+  jitter?: 'full' | 'equal' | 'none';
+  retryOnStatus?: number[];
+  retryOnNetworkError?: boolean;
+  retryNonIdempotent?: boolean; // Replay POST/PATCH on 5xx and network errors
+  maxRetryAfterMs?: number; // Give up if the server asks us to wait longer
+}
+
+export interface RateLimitOptions {
+  requestsPerSecond?: number; // Token refill rate, must be > 0; Infinity disables rate limiting
+  burst?: number; // Bucket size, defaults to requestsPerSecond
+  maxConcurrency?: number; // Max requests in flight at once
+  onQueueChange?: (stats: QueueStats) => void;
+}
+
+export interface QueueStats {
+  queued: number;
+  inFlight: number;
+  completed: number;
+}
+
+export interface RequestOptions {
+  idempotent?: boolean; // Override the method-based idempotency check
 }
 
 export interface OAuth2TokenResponse {
@@ -19,6 +72,18 @@ export interface OAuth2TokenResponse {
   refresh_token?: string;
 }
 
+export interface PkceChallenge {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+export interface OAuthCallbackServerOptions {
+  callbackUrl: string;
+  state: string;
+  timeoutMs?: number;
+  port?: number; // Override the port from callbackUrl (0 picks a free port)
+}
+
 export interface MauticContact {
   id?: number;
   dateAdded?: string;
@@ -34,6 +99,8 @@ export interface MauticContact {
   };
   points?: number;
   lastActive?: string;
+  doNotContact?: DoNotContactEntry[];
+  utmtags?: ContactUtmTag[];
   fields: {
     core: {
       firstname?: { value: string };
@@ -52,6 +119,68 @@ export interface MauticContact {
   tags?: string[];
 }
 
+export interface MauticCompany {
+  id?: number;
+  isPublished?: boolean;
+  dateAdded?: string;
+  dateModified?: string;
+  score?: number;
+  owner?: ContactOwner | null;
+  fields: {
+    core?: {
+      companyname?: { value: string };
+      companyemail?: { value: string };
+      companywebsite?: { value: string };
+      companyindustry?: { value: string };
+      companycity?: { value: string };
+      companycountry?: { value: string };
+      [key: string]: { value: string | number } | undefined;
+    };
+    all?: Record<string, any>;
+    [group: string]: Record<string, any> | undefined;
+  };
+}
+
+export interface CompanyCreateParams {
+  companyname: string;
+  companyemail?: string;
+  companywebsite?: string;
+  companyindustry?: string;
+  companyphone?: string;
+  companyaddress1?: string;
+  companycity?: string;
+  companyzipcode?: string;
+  companycountry?: string;
+  companydescription?: string;
+  owner?: number;
+  isPublished?: boolean;
+  [key: string]: any;
+}
+
+export interface CompanyLinkOptions {
+  field?: string; // Contact field holding the organization name, defaults to company
+  defaults?: Partial<CompanyCreateParams>; // Extra fields for newly created companies
+}
+
+export interface CompanyLinkResult {
+  organization: string;
+  company: MauticCompany;
+  created: boolean;
+  contactIds: number[];
+}
+
+export interface CompanyLinkFailure {
+  organization: string;
+  contactIds: number[];
+  error: MauticErrorDetail; // Lookup, creation or linking failed; contacts linked before the error stay linked
+}
+
+export interface CompanySyncResult {
+  companies: CompanyLinkResult[];
+  failed: CompanyLinkFailure[];
+  skippedContactIds: number[]; // Contacts without an organization
+}
+
 export interface MauticEmail {
   id?: number;
   name: string;
@@ -68,6 +197,42 @@ export interface MauticEmail {
   bccAddress?: string;
 }
 
+export interface EmailEngagementCounts {
+  sent: number;
+  read: number;
+  clicked: number; // Contacts who clicked at least one tracked link
+  bounced: number;
+  unsubscribed: number;
+  failed: number;
+}
+
+export interface EmailStats extends EmailEngagementCounts {
+  emailId: number;
+}
+
+// One email sent to one contact, joined from Mautic's email_stats, page_hits
+// and lead_donotcontact tables
+export interface EmailContactStats {
+  emailId: number;
+  contactId: number;
+  emailAddress: string;
+  dateSent: string | null;
+  dateRead: string | null;
+  openCount: number;
+  read: boolean;
+  clicked: boolean;
+  bounced: boolean;
+  unsubscribed: boolean;
+  failed: boolean;
+  source: string | null; // e.g. campaign.event
+  sourceId: number | null;
+}
+
+export interface ContactEmailStats extends EmailEngagementCounts {
+  contactId: number;
+  emails: EmailContactStats[];
+}
+
 export interface MauticSegment {
   id?: number;
   name: string;
@@ -75,15 +240,54 @@ export interface MauticSegment {
   description?: string;
   isPublished?: boolean;
   isGlobal?: boolean;
-  filters?: Array<{
-    glue: 'and' | 'or';
-    field: string;
-    object: string;
-    type: string;
-    operator: string;
-    properties?: Record<string, any>;
-    filter?: string;
-  }>;
+  filters?: SegmentFilter[];
+}
+
+export type SegmentFilterOperator =
+  | '='
+  | '!='
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'empty'
+  | '!empty'
+  | 'like'
+  | '!like'
+  | 'between'
+  | '!between'
+  | 'in'
+  | '!in'
+  | 'regexp'
+  | '!regexp'
+  | 'startsWith'
+  | 'endsWith'
+  | 'contains';
+
+export type SegmentFilterValue = string | number | boolean | Array<string | number>;
+
+// One condition of a segment, see SegmentFilters for builders
+export interface SegmentFilter {
+  glue: 'and' | 'or'; // How this filter combines with the previous one
+  field: string; // Field alias or built-in filter (tags, leadlist, points, ...)
+  object: 'lead' | 'company' | 'behaviors';
+  type: string; // Field type, must match the field definition
+  operator: SegmentFilterOperator;
+  properties: {
+    filter?: SegmentFilterValue | null;
+    display?: string;
+  };
+  filter?: SegmentFilterValue | null; // Older Mautic versions read the value here
+}
+
+export interface SegmentWriteOptions {
+  validate?: boolean; // Check filters against the instance's field definitions (default: true)
+}
+
+export interface MauticTag {
+  id: number;
+  tag: string;
+  description?: string | null;
 }
 
 export interface MauticCampaign {
@@ -94,20 +298,279 @@ export interface MauticCampaign {
   publishUp?: string;
   publishDown?: string;
   allowRestart?: boolean;
+  events?: CampaignEvent[];
+  lists?: Array<{ id: number; name?: string }>; // Source segments
+  forms?: Array<{ id: number; name?: string }>; // Source forms
+  canvasSettings?: CampaignCanvasSettings;
+}
+
+export interface CampaignMembership {
+  contactId: number;
+  campaignId: number;
+  dateAdded: string;
+  manuallyAdded: boolean;
+  manuallyRemoved: boolean;
+  dateLastExited?: string | null;
+  rotation: number; // Times the contact has restarted the campaign
+}
+
+export interface CampaignEventLogEntry {
+  id?: number;
+  event: { id: number; name: string; type: string; eventType: CampaignEventKind };
+  dateTriggered: string | null;
+  triggerDate: string | null; // When a scheduled event will run
+  isScheduled: boolean;
+  nonActionPathTaken?: boolean; // Decision timed out and the `no` path was taken
+  systemTriggered?: boolean;
+  rotation?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface CampaignContactPosition {
+  campaignId: number;
+  contactId: number;
+  log: CampaignEventLogEntry[]; // Oldest first
+  lastEvent: CampaignEventLogEntry | null; // Most recently executed event
+  scheduled: CampaignEventLogEntry[]; // Events waiting to run
+}
+
+export type CampaignEventKind = 'action' | 'decision' | 'condition';
+
+export type CampaignDecisionPath = 'yes' | 'no';
+
+// Mautic interval units: minutes, hours, days, months, years
+export type CampaignIntervalUnit = 'i' | 'h' | 'd' | 'm' | 'y';
+
+export interface CampaignEvent {
+  id: string | number; // `new1`, `new2`, ... for events that do not exist yet
+  name: string;
+  description?: string;
+  type: string; // e.g. email.send, email.open, lead.changepoints, lead.field_value
+  eventType: CampaignEventKind;
+  order: number;
+  properties: Record<string, any>;
+  triggerMode: 'immediate' | 'interval' | 'date' | null; // null for decisions
+  triggerInterval?: number | null;
+  triggerIntervalUnit?: CampaignIntervalUnit | null;
+  triggerDate?: string | null;
+  parent: string | number | null | { id: string | number };
+  decisionPath: CampaignDecisionPath | null;
+  channel?: string;
+  channelId?: number;
+}
+
+export interface CampaignCanvasNode {
+  id: string; // Event id, or `lists` / `forms` for the sources
+  positionX: number | string;
+  positionY: number | string;
+}
+
+export interface CampaignCanvasConnection {
+  sourceId: string;
+  targetId: string;
+  anchors: {
+    source: 'leadsource' | 'bottom' | CampaignDecisionPath;
+    target: 'top' | 'leadsourceleft' | 'leadsourceright';
+  };
+}
+
+export interface CampaignCanvasSettings {
+  nodes: CampaignCanvasNode[];
+  connections: CampaignCanvasConnection[];
+}
+
+// Event a builder node is created from, see CampaignEvents for common ones
+export interface CampaignEventDefinition {
+  type: string;
+  eventType: CampaignEventKind;
+  name: string;
+  description?: string;
+  properties?: Record<string, any>;
+  channel?: string;
+  channelId?: number;
+}
+
+export interface CampaignEventTiming {
+  wait?: Partial<Record<'minutes' | 'hours' | 'days' | 'months' | 'years', number>>; // Exactly one unit
+  at?: Date | string; // Run at a fixed date instead
+}
+
+export type FormFieldType =
+  | 'text'
+  | 'email'
+  | 'tel'
+  | 'url'
+  | 'number'
+  | 'textarea'
+  | 'select'
+  | 'country'
+  | 'checkboxgrp'
+  | 'radiogrp'
+  | 'date'
+  | 'datetime'
+  | 'hidden'
+  | 'file'
+  | 'freetext'
+  | 'button'
+  | (string & {});
+
+export interface MauticFormField {
+  id?: number;
+  label: string;
+  alias?: string; // Key of the value in submission results, derived from the label if omitted
+  type: FormFieldType;
+  isRequired?: boolean;
+  validationMessage?: string;
+  defaultValue?: string;
+  leadField?: string; // Contact field the value is mapped to, e.g. email
+  order?: number;
+  properties?: Record<string, any>; // e.g. { list: { list: [{ label, value }] } } for selects
+}
+
+export interface MauticFormAction {
+  id?: number;
+  name: string;
+  type: string; // e.g. lead.changelist, email.send.lead, lead.addtags
+  description?: string;
+  order?: number;
+  properties?: Record<string, any>;
+}
+
+export interface MauticForm {
+  id?: number;
+  name: string;
+  alias?: string;
+  description?: string;
+  isPublished?: boolean;
+  publishUp?: string | null;
+  publishDown?: string | null;
+  formType?: 'standalone' | 'campaign';
+  postAction?: 'message' | 'redirect' | 'return';
+  postActionProperty?: string;
+  category?: { id: number; title: string } | null;
+  fields?: MauticFormField[];
+  actions?: MauticFormAction[];
+  submissionCount?: number;
+}
+
+export interface FormCreateParams {
+  name: string;
+  alias?: string;
+  description?: string;
+  isPublished?: boolean;
+  formType?: 'standalone' | 'campaign';
+  postAction?: 'message' | 'redirect' | 'return';
+  postActionProperty?: string;
+  category?: number;
+  fields?: MauticFormField[];
+  actions?: MauticFormAction[];
+}
+
+export interface MauticFormSubmission<TResults = Record<string, string>> {
+  id: number;
+  dateSubmitted: string;
+  referer?: string;
+  trackingId?: string | null;
+  ipAddress?: { ip: string };
+  form?: { id: number; name: string; alias: string };
+  page?: { id: number; title: string; alias: string } | null;
+  lead?: MauticContact | null;
+  results: TResults; // Field alias -> submitted value
+}
+
+export interface MauticPage {
+  id?: number;
+  title: string;
+  alias?: string;
+  template?: string;
+  customHtml?: string;
+  content?: Record<string, string>; // Slot name -> HTML for builder templates
+  metaDescription?: string;
+  redirectType?: '301' | '302' | null;
+  redirectUrl?: string | null;
+  isPublished?: boolean;
+  publishUp?: string | null;
+  publishDown?: string | null;
+  language?: string;
+  hits?: number;
+  uniqueHits?: number;
+  category?: { id: number; title: string } | null;
+}
+
+export type PageCreateParams = Omit<MauticPage, 'id' | 'hits' | 'uniqueHits' | 'category'> & {
+  category?: number;
+};
+
+export interface ListOrder {
+  col: string;
+  dir: 'asc' | 'desc';
+}
+
+export interface ListParams {
+  start?: number;
+  limit?: number;
+  search?: string;
+  orderBy?: string;
+  orderByDir?: 'asc' | 'desc';
+  minimal?: boolean;
+}
+
+export type WhereValue = string | number | boolean | Date;
+
+export type WhereComparison = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'like' | 'notLike';
+
+export type WhereExpression =
+  | { col: string; expr: WhereComparison; val: WhereValue }
+  | { col: string; expr: 'in' | 'notIn'; val: WhereValue[] }
+  | { col: string; expr: 'between' | 'notBetween'; val: [WhereValue, WhereValue] }
+  | { col: string; expr: 'isNull' | 'isNotNull' | 'isEmpty' | 'isNotEmpty' }
+  | { expr: 'andX' | 'orX'; val: WhereExpression[] };
+
+export interface ContactListParams extends ListParams {
+  where?: WhereExpression[]; // Combined with AND
+  order?: ListOrder[];
+}
+
+export type CompanyListParams = ContactListParams;
+
+export type FormSubmissionListParams = ContactListParams;
+
+export type CampaignContactListParams = ContactListParams;
+
+export interface EmailListParams extends ListParams {
+  published?: boolean;
+}
+
+export interface PaginationOptions {
+  pageSize?: number; // Items per request, defaults to 100
+  start?: number;
+  prefetch?: boolean; // Fetch the next page while the current one is consumed
+}
+
+export interface Page<T> {
+  total: number;
+  items: T[];
 }
 
 export interface MauticApiResponse<T> {
   [key: string]: T;
 }
 
-export interface MauticError {
-  code: number;
+export interface MauticErrorDetail {
   message: string;
+  code?: number;
+  type?: string | null;
   details?: {
-    [key: string]: string[];
+    [field: string]: string[];
   };
 }
 
+export interface MauticErrorContext {
+  method?: string;
+  endpoint?: string;
+  status?: number;
+}
+
 export interface ContactCreateParams {
   firstname?: string;
   lastname?: string;
@@ -119,6 +582,217 @@ export interface ContactCreateParams {
   [key: string]: any;
 }
 
+export interface ContactUpsertOptions {
+  uniqueField?: string; // Field used to find an existing contact, defaults to email
+}
+
+export interface ContactUpsertResult {
+  action: 'created' | 'updated' | 'unchanged';
+  contact: MauticContact;
+  changedFields: string[];
+}
+
+export interface DuplicateContactGroup {
+  normalizedEmail: string;
+  primary: MauticContact; // Suggested merge target
+  duplicates: MauticContact[]; // Suggested to merge into primary
+}
+
+export interface BatchOptions {
+  chunkSize?: number; // Rows per request, Mautic's api_batch_max_limit defaults to 200
+  onProgress?: (processed: number, total: number) => void;
+}
+
+export type BatchRowStatus = 'created' | 'updated' | 'deleted' | 'failed';
+
+export interface BatchRowResult<TInput, TEntity> {
+  index: number; // Position in the original input
+  input: TInput;
+  status: BatchRowStatus;
+  entity?: TEntity;
+  error?: MauticErrorDetail;
+}
+
+export interface BatchResult<TInput, TEntity> {
+  results: BatchRowResult<TInput, TEntity>[];
+  created: number;
+  updated: number;
+  deleted: number;
+  failed: number;
+}
+
+export interface MembershipChangeResult {
+  contactId: number;
+  success: boolean;
+  error?: MauticErrorDetail;
+}
+
+export interface BulkMembershipResult {
+  results: MembershipChangeResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// Result of comparing a segment's members with a desired list
+export interface SegmentDiff {
+  add: number[]; // Contact IDs to add
+  remove: number[]; // Contact IDs to remove
+  unchanged: number[]; // Contact IDs already in the segment
+  unknown: string[]; // Desired emails without a Mautic contact
+  applied?: {
+    added: BulkMembershipResult;
+    removed: BulkMembershipResult;
+  };
+}
+
+export interface SegmentDiffOptions extends Pick<BatchOptions, 'chunkSize'> {
+  apply?: boolean; // Add and remove the contacts instead of only reporting them
+  remove?: boolean; // Remove members missing from the desired list (default: true)
+}
+
+export interface BatchChunkResponse<TEntity> {
+  entities?: Record<string, TEntity> | TEntity[]; // Index-keyed object when some rows failed
+  statusCodes?: Record<string, number> | number[];
+  errors?: Record<string, MauticErrorDetail> | MauticErrorDetail[];
+}
+
+export type ContactEditParams = Partial<ContactCreateParams> & { id: number };
+
+export type DoNotContactChannel = 'email' | 'sms' | (string & {});
+
+// 1 = unsubscribed, 2 = bounced, 3 = manual
+export type DoNotContactReason = 1 | 2 | 3;
+
+export interface DoNotContactParams {
+  reason?: DoNotContactReason; // Defaults to manual
+  comments?: string;
+  channelId?: number; // e.g. the email that caused the unsubscribe
+}
+
+export interface DoNotContactEntry {
+  id: number;
+  reason: DoNotContactReason;
+  comments?: string;
+  channel: DoNotContactChannel;
+  channelId?: number | null;
+}
+
+export type ContactNoteType = 'general' | 'email' | 'call' | 'meeting';
+
+export interface ContactNote {
+  id: number;
+  text: string;
+  type: ContactNoteType;
+  dateTime?: string;
+  lead?: { id: number };
+}
+
+export interface ContactNoteParams {
+  text: string;
+  type?: ContactNoteType; // Defaults to general
+  dateTime?: string | Date;
+}
+
+export interface ContactUtmTagParams {
+  utm_campaign?: string;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_content?: string;
+  utm_term?: string;
+  url?: string;
+  referer?: string;
+  useragent?: string;
+  remotehost?: string;
+  query?: Record<string, string>;
+  lastActive?: string | Date;
+}
+
+export interface ContactUtmTag extends ContactUtmTagParams {
+  id: number;
+  dateAdded?: string;
+}
+
+export interface ContactOwner {
+  id: number;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ContactDevice {
+  id: number;
+  device: string; // desktop, smartphone, tablet, ...
+  deviceBrand?: string;
+  deviceModel?: string;
+  deviceOsName?: string;
+  deviceOsShortName?: string;
+  deviceOsVersion?: string;
+  deviceOsPlatform?: string;
+  dateAdded?: string;
+}
+
+export interface ContactCompanyLink {
+  company_id: number;
+  companyname: string;
+  date_associated: string;
+  is_primary: boolean | '0' | '1';
+  [field: string]: unknown;
+}
+
+export interface ContactSegmentMembership {
+  id: number;
+  name: string;
+  alias: string;
+  dateAdded?: string;
+  manuallyAdded?: boolean;
+  manuallyRemoved?: boolean;
+}
+
+export interface ContactActivityParams {
+  search?: string;
+  includeEvents?: string[];
+  excludeEvents?: string[];
+  dateFrom?: string | Date;
+  dateTo?: string | Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface ContactActivityEvent {
+  event: string; // e.g. page.hit, email.read, form.submitted
+  eventId?: string;
+  eventLabel?: string | { label: string; href?: string };
+  eventType?: string;
+  timestamp: string;
+  icon?: string;
+  details?: Record<string, any>;
+  contactId?: number;
+}
+
+export interface ContactActivity {
+  events: ContactActivityEvent[];
+  total: number;
+  page: number;
+  limit: number;
+  maxPages: number;
+  types: Record<string, string>;
+}
+
+export interface MauticContactField {
+  id: number;
+  label: string;
+  alias: string;
+  type: string; // text, email, select, multiselect, boolean, date, number, ...
+  group: string; // core, social, personal, professional
+  object: 'lead' | 'company';
+  order?: number;
+  defaultValue?: string | null;
+  isRequired?: boolean;
+  isPublished?: boolean;
+  isUniqueIdentifier?: boolean;
+  isPubliclyUpdatable?: boolean;
+  properties?: Record<string, any>;
+}
+
 export interface EmailSendParams {
   emails: {
     [email: string]: {
@@ -0,0 +1,95 @@
+/**
+ * Mautic Webhook Type Definitions
+ */
+
+import type { MauticContact, MauticEmail, MauticFormSubmission } from './mautic';
+
+export type WebhookChannelStatus = 'contactable' | 'unsubscribed' | 'bounced' | 'manual';
+
+export interface WebhookEmailStat {
+  id: number;
+  emailAddress: string;
+  dateSent?: string;
+  dateRead?: string;
+  isRead?: boolean;
+  openCount?: number;
+  source?: string;
+  sourceId?: number;
+  email?: MauticEmail & { id: number };
+  lead?: MauticContact;
+}
+
+export interface WebhookPageHit {
+  id: number;
+  dateHit: string;
+  url: string;
+  referer?: string;
+  page?: { id: number; title: string; alias: string } | null;
+  lead?: MauticContact;
+  source?: string;
+  sourceId?: number;
+  urlTitle?: string;
+}
+
+// Event name -> payload of one event
+export interface MauticWebhookPayloads {
+  'mautic.email_on_open': { stat: WebhookEmailStat };
+  'mautic.email_on_send': { email: MauticEmail & { id: number }; contact: MauticContact; idHash?: string };
+  'mautic.form_on_submit': { submission: MauticFormSubmission };
+  'mautic.page_on_hit': { hit: WebhookPageHit };
+  'mautic.lead_post_save_new': { contact: MauticContact };
+  'mautic.lead_post_save_update': { contact: MauticContact };
+  'mautic.lead_post_delete': { id: number; contact?: MauticContact };
+  'mautic.lead_points_change': {
+    contact: MauticContact;
+    points: { old_points: number; new_points: number };
+  };
+  'mautic.lead_channel_subscription_changed': {
+    contact: MauticContact;
+    channel: string;
+    old_status: WebhookChannelStatus;
+    new_status: WebhookChannelStatus;
+  };
+  'mautic.lead_company_change': { contact: MauticContact; company: Record<string, any>; added: boolean };
+}
+
+export type MauticWebhookEventType = keyof MauticWebhookPayloads;
+
+export type MauticWebhookEvent = {
+  [K in MauticWebhookEventType]: {
+    type: K;
+    timestamp: string;
+    data: MauticWebhookPayloads[K];
+  };
+}[MauticWebhookEventType];
+
+export type MauticWebhookEventOf<K extends MauticWebhookEventType> = Extract<
+  MauticWebhookEvent,
+  { type: K }
+>;
+
+export type WebhookHandler<E extends MauticWebhookEvent = MauticWebhookEvent> = (
+  event: E
+) => void | Promise<void>;
+
+export interface WebhookReceiverOptions {
+  secret: string; // Shared secret configured on the Mautic webhook
+  path?: string; // Only handle requests to this path (node middleware falls through otherwise)
+}
+
+export interface WebhookDispatchResult {
+  events: MauticWebhookEvent[];
+  ignored: string[]; // Event types without a known payload shape
+}
+
+export interface MauticWebhook {
+  id?: number;
+  name: string;
+  description?: string;
+  webhookUrl: string;
+  secret?: string; // Generated by Mautic when omitted
+  eventsOrderbyDir?: 'ASC' | 'DESC';
+  isPublished?: boolean;
+  triggers: MauticWebhookEventType[] | string[];
+  category?: { id: number; title: string } | null;
+}
@@ -0,0 +1,286 @@
+/**
+ * Webhook Receiver
+ * Verifies Mautic's `Webhook-Signature` header, parses the payload into typed
+ * events and dispatches them to registered handlers
+ *
+ * @example
+ * const receiver = new MauticWebhookReceiver({ secret: process.env.MAUTIC_WEBHOOK_SECRET! });
+ * receiver.on('mautic.form_on_submit', async event => {
+ *   console.log(event.data.submission.results);
+ * });
+ *
+ * Bun.serve({ port: 3000, fetch: request => receiver.handleRequest(request) });
+ * // or: http.createServer(receiver.middleware())
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type {
+  MauticWebhookEvent,
+  MauticWebhookEventOf,
+  MauticWebhookEventType,
+  MauticWebhookPayloads,
+  WebhookDispatchResult,
+  WebhookHandler,
+  WebhookReceiverOptions,
+} from '../types/webhooks';
+import { MauticWebhookError } from '../api/errors';
+
+export const SIGNATURE_HEADER = 'webhook-signature';
+
+const KNOWN_EVENT_TYPES = new Set<string>([
+  'mautic.email_on_open',
+  'mautic.email_on_send',
+  'mautic.form_on_submit',
+  'mautic.page_on_hit',
+  'mautic.lead_post_save_new',
+  'mautic.lead_post_save_update',
+  'mautic.lead_post_delete',
+  'mautic.lead_points_change',
+  'mautic.lead_channel_subscription_changed',
+  'mautic.lead_company_change',
+] satisfies MauticWebhookEventType[]);
+
+/**
+ * Compute the signature Mautic sends: base64 HMAC-SHA256 of the raw body
+ */
+export function signWebhookPayload(rawBody: string | Uint8Array, secret: string): string {
+  return createHmac('sha256', secret).update(rawBody).digest('base64');
+}
+
+/**
+ * Check a signature header against the raw body in constant time
+ */
+export function verifyWebhookSignature(
+  rawBody: string | Uint8Array,
+  signature: string | null | undefined,
+  secret: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret));
+  const received = Buffer.from(signature.trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Split a webhook body into one event per entry
+ *
+ * Mautic batches queued events: each trigger name maps to a list of payloads,
+ * next to a top-level `timestamp`.
+ */
+export function parseWebhookPayload(rawBody: string | Uint8Array): WebhookDispatchResult {
+  let body: Record<string, unknown>;
+  try {
+    const text = typeof rawBody === 'string' ? rawBody : Buffer.from(rawBody).toString('utf8');
+    body = JSON.parse(text);
+  } catch (error) {
+    throw new MauticWebhookError('Webhook payload is not valid JSON', { status: 400 }, { cause: error });
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new MauticWebhookError('Webhook payload must be a JSON object', { status: 400 });
+  }
+
+  const events: MauticWebhookEvent[] = [];
+  const ignored: string[] = [];
+  const fallbackTimestamp = typeof body.timestamp === 'string' ? body.timestamp : '';
+
+  for (const [type, entries] of Object.entries(body)) {
+    if (type === 'timestamp') continue;
+
+    if (!KNOWN_EVENT_TYPES.has(type)) {
+      ignored.push(type);
+      continue;
+    }
+
+    for (const entry of Array.isArray(entries) ? entries : [entries]) {
+      const { timestamp, ...data } = (entry || {}) as Record<string, any>;
+      events.push({
+        type,
+        timestamp: timestamp || fallbackTimestamp,
+        data: normalizePayload(type as MauticWebhookEventType, data),
+      } as MauticWebhookEvent);
+    }
+  }
+
+  return { events, ignored };
+}
+
+export class MauticWebhookReceiver {
+  private handlers = new Map<string, WebhookHandler<any>[]>();
+
+  constructor(private options: WebhookReceiverOptions) {
+    if (!options.secret) {
+      throw new MauticWebhookError('A webhook secret is required to verify signatures');
+    }
+  }
+
+  /**
+   * Register a handler for one event type
+   */
+  on<K extends MauticWebhookEventType>(
+    type: K,
+    handler: WebhookHandler<MauticWebhookEventOf<K>>
+  ): this {
+    return this.addHandler(type, handler);
+  }
+
+  /**
+   * Register a handler for every event
+   */
+  onAny(handler: WebhookHandler): this {
+    return this.addHandler('*', handler);
+  }
+
+  /**
+   * Remove a previously registered handler
+   */
+  off(type: MauticWebhookEventType | '*', handler: WebhookHandler<any>): this {
+    this.handlers.set(
+      type,
+      (this.handlers.get(type) || []).filter(h => h !== handler)
+    );
+    return this;
+  }
+
+  /**
+   * Verify, parse and dispatch a raw request body
+   *
+   * Throws MauticWebhookError (401) for a missing or wrong signature.
+   */
+  async receive(
+    rawBody: string | Uint8Array,
+    signature: string | null | undefined
+  ): Promise<WebhookDispatchResult> {
+    if (!verifyWebhookSignature(rawBody, signature, this.options.secret)) {
+      throw new MauticWebhookError('Invalid webhook signature', { status: 401 });
+    }
+
+    const result = parseWebhookPayload(rawBody);
+    await this.dispatch(result.events);
+    return result;
+  }
+
+  /**
+   * Run the handlers for each event in order
+   */
+  async dispatch(events: MauticWebhookEvent[]): Promise<void> {
+    for (const event of events) {
+      const handlers = [
+        ...(this.handlers.get(event.type) || []),
+        ...(this.handlers.get('*') || []),
+      ];
+      for (const handler of handlers) {
+        await handler(event);
+      }
+    }
+  }
+
+  /**
+   * Fetch API handler (Bun.serve, Deno, edge runtimes)
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    if (this.options.path && new URL(request.url).pathname !== this.options.path) {
+      return new Response('Not found', { status: 404 });
+    }
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { Allow: 'POST' } });
+    }
+
+    const rawBody = new Uint8Array(await request.arrayBuffer());
+    const result = await this.settle(() => this.receive(rawBody, request.headers.get(SIGNATURE_HEADER)));
+    return Response.json(result.body, { status: result.status });
+  }
+
+  /**
+   * Node `http` / Express / Connect middleware
+   *
+   * Register it before any body parser, or keep the raw body on `req.rawBody`:
+   * the signature is computed over the exact bytes Mautic sent.
+   */
+  middleware(): (
+    req: IncomingMessage & { rawBody?: string | Uint8Array },
+    res: ServerResponse,
+    next?: (error?: unknown) => void
+  ) => void {
+    return (req, res, next) => {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+      if (this.options.path && path !== this.options.path) {
+        if (next) next();
+        else res.writeHead(404).end();
+        return;
+      }
+      if (req.method !== 'POST') {
+        res.writeHead(405, { Allow: 'POST' }).end();
+        return;
+      }
+
+      readRawBody(req)
+        .then(rawBody => this.settle(() => this.receive(rawBody, headerValue(req.headers[SIGNATURE_HEADER]))))
+        .then(({ status, body }) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+        })
+        .catch(error => (next ? next(error) : res.writeHead(500).end()));
+    };
+  }
+
+  private addHandler(type: string, handler: WebhookHandler<any>): this {
+    this.handlers.set(type, [...(this.handlers.get(type) || []), handler]);
+    return this;
+  }
+
+  /**
+   * Map the outcome of a delivery to an HTTP status and JSON body
+   *
+   * Handler failures return 500 so Mautic records the delivery as failed.
+   */
+  private async settle(
+    receive: () => Promise<WebhookDispatchResult>
+  ): Promise<{ status: number; body: Record<string, unknown> }> {
+    try {
+      const { events, ignored } = await receive();
+      return { status: 200, body: { received: events.length, ignored } };
+    } catch (error) {
+      if (error instanceof MauticWebhookError) {
+        return { status: error.status || 400, body: { error: error.message } };
+      }
+      return {
+        status: 500,
+        body: { error: error instanceof Error ? error.message : 'Webhook handler failed' },
+      };
+    }
+  }
+}
+
+/**
+ * Older Mautic versions send `lead` instead of `contact`
+ */
+function normalizePayload<K extends MauticWebhookEventType>(
+  type: K,
+  data: Record<string, any>
+): MauticWebhookPayloads[K] {
+  if (type.startsWith('mautic.lead_') && data.contact === undefined && data.lead !== undefined) {
+    const { lead, ...rest } = data;
+    return { ...rest, contact: lead } as MauticWebhookPayloads[K];
+  }
+  return data as MauticWebhookPayloads[K];
+}
+
+async function readRawBody(req: IncomingMessage & { rawBody?: string | Uint8Array }): Promise<Uint8Array> {
+  if (req.rawBody !== undefined) {
+    return typeof req.rawBody === 'string' ? Buffer.from(req.rawBody) : req.rawBody;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
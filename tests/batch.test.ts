@@ -0,0 +1,81 @@
+/**
+ * Tests for chunked batch requests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { chunk, runBatch } from '../src/api/batch';
+import { MauticValidationError } from '../src/api/errors';
+
+describe('chunk', () => {
+  test('should split into chunks of at most the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('runBatch', () => {
+  const rows = ['a', 'b', 'c', 'd', 'e'];
+
+  test('should map statuses and errors back to the original row index', async () => {
+    const sent: string[][] = [];
+    const progress: number[] = [];
+
+    const result = await runBatch(
+      rows,
+      { chunkSize: 2, onProgress: processed => progress.push(processed) },
+      async chunkRows => {
+        sent.push(chunkRows);
+        // Failed rows turn Mautic's arrays into index-keyed objects
+        return {
+          entities: Object.fromEntries(
+            chunkRows.map((row, i) => [i, { id: row }]).filter(([, e]) => (e as any).id !== 'd')
+          ),
+          statusCodes: Object.fromEntries(
+            chunkRows.map((row, i) => [i, row === 'd' ? 400 : row === 'a' ? 200 : 201])
+          ),
+          errors: chunkRows.includes('d')
+            ? { [chunkRows.indexOf('d')]: { message: 'email: invalid', code: 400 } }
+            : undefined,
+        };
+      },
+      statusCode => (statusCode === 201 ? 'created' : 'updated')
+    );
+
+    expect(sent).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(progress).toEqual([2, 4, 5]);
+    expect(result.results.map(r => [r.index, r.status])).toEqual([
+      [0, 'updated'],
+      [1, 'created'],
+      [2, 'created'],
+      [3, 'failed'],
+      [4, 'created'],
+    ]);
+    expect(result.results[3].error?.message).toBe('email: invalid');
+    expect(result.results[4].entity).toEqual({ id: 'e' });
+    expect(result).toMatchObject({ created: 3, updated: 1, deleted: 0, failed: 1 });
+  });
+
+  test('should mark every row of a failed request as failed', async () => {
+    const result = await runBatch(
+      rows,
+      { chunkSize: 3 },
+      async chunkRows => {
+        if (chunkRows.includes('a')) {
+          throw new MauticValidationError('Too many rows', { status: 400 }, [
+            { message: 'Too many rows', details: { rows: ['max 2'] } },
+          ]);
+        }
+        return { entities: chunkRows.map(id => ({ id })) };
+      },
+      () => 'deleted'
+    );
+
+    expect(result.failed).toBe(3);
+    expect(result.deleted).toBe(2);
+    expect(result.results[0].error).toEqual({
+      message: 'Too many rows',
+      code: 400,
+      details: { rows: ['max 2'] },
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for the block library validator and strict composer initialization
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EmailComposer } from '../src/email-composer/email-composer';
+import { BlockLibraryError } from '../src/email-composer/block-validator';
+
+const ROOT = join(import.meta.dir, '..', 'src/email-composer');
+
+describe('block library validation', () => {
+  let dir: string;
+
+  const writeJson = async (path: string, data: unknown) => {
+    await fs.mkdir(join(dir, path, '..'), { recursive: true });
+    await fs.writeFile(join(dir, path), JSON.stringify(data, null, 2));
+  };
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'blocks-'));
+
+    await writeJson('blocks/greeting/formal.json', {
+      id: 'greeting-formal',
+      category: 'greeting',
+      tags: ['formal'],
+      tone: 'formal',
+      variants: [
+        { id: 'dear', text: 'Dear {{title}} {{last_name}},', placeholders: ['title'] },
+        { id: 'dear', text: 'Hello,', placeholders: ['first_name'] },
+      ],
+    });
+    await writeJson('blocks/cta/buy-ticket.json', {
+      id: 'cta-tickets',
+      category: 'call-to-action',
+      tags: ['ticket'],
+      variants: [{ id: 'buy', text: 'Get your ticket: {{ticket_url}} ({{promo_code}})', placeholders: ['ticket_url', 'promo_code'] }],
+    });
+    await writeJson('blocks/opener/broken.json', {
+      id: 'opener-broken',
+      category: 'opener',
+      tags: [],
+      variants: [
+        { id: 'shout', text: '{{first_name | shout}}', placeholders: ['first_name'] },
+        { id: 'klingon', locale: 'tlh-', text: 'nuqneH', placeholders: [] },
+        { id: 'dashed', text: 'Hi {{first-name}},', placeholders: [] },
+      ],
+    });
+    await writeJson('blocks/closing/formal.json', { id: 'closing-formal', category: 'closing', tags: [], variants: [] });
+    await writeJson('config/audiences.json', {
+      audiences: {
+        vcs: {
+          name: 'VCs',
+          tone: 'formal',
+          intention: 'invite-attend',
+          valueProps: [],
+          cta: 'buy-ticket',
+          eventInfo: 'contest',
+          tags: [],
+        },
+      },
+    });
+    await writeJson('config/event-details.json', { event: { name: 'Summit' } });
+  });
+
+  afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+  test('should accept the bundled block library', async () => {
+    const report = await new EmailComposer(join(ROOT, 'config'), join(ROOT, 'blocks')).validateLibrary();
+
+    expect(report.issues.filter(issue => issue.severity === 'error')).toEqual([]);
+    // Contact-specific placeholders are only warnings
+    expect(report.issues.some(issue => issue.message.includes('{{publication_name}}'))).toBe(true);
+  });
+
+  test('should report category, id, placeholder, selector and schema problems', async () => {
+    const report = await new EmailComposer(join(dir, 'config'), join(dir, 'blocks')).validateLibrary();
+    const messages = report.issues.map(issue => `${issue.severity} ${issue.file}: ${issue.message}`);
+
+    expect(messages).toContain('error cta/buy-ticket.json: Category "call-to-action" does not match directory "cta"');
+    expect(messages).toContain('error cta/buy-ticket.json: Id "cta-tickets" should end with the file name ("-buy-ticket")');
+    expect(messages).toContain(
+      'warning cta/buy-ticket.json: Variant "buy" uses {{promo_code}}, which the composer does not produce; pass it as a contact field or custom variable'
+    );
+    expect(messages).toContain('error greeting/formal.json: Variant "dear" is defined more than once');
+    expect(messages).toContain('error greeting/formal.json: Variant "dear" uses {{last_name}} but does not declare it in placeholders');
+    expect(messages).toContain('error greeting/formal.json: Variant "dear" declares placeholder "first_name" that its text does not use');
+    expect(messages).toContain('error closing/formal.json: variants should have at least 1 item(s)');
+    expect(messages).toContain(
+      'error opener/broken.json: Variant "shout" has an invalid template: Unknown filter "shout" in {{first_name | shout}}'
+    );
+    expect(messages).toContain('error opener/broken.json: Variant "klingon" has invalid locale "tlh-"');
+    expect(messages).toContain(
+      'warning opener/broken.json: Variant "dashed" has invalid placeholder {{first-name}}, which is sent as written'
+    );
+    expect(messages).toContain(
+      'error audiences.json: Audience "vcs" eventInfo "contest" matches no event-info block (by file name, tag or tone)'
+    );
+    expect(messages).toContain('error event-details.json: event.date is required');
+    // The cta block still resolves by file name despite its wrong category
+    expect(messages.some(m => m.includes('cta "buy-ticket"'))).toBe(false);
+  });
+
+  test('should refuse to initialize an invalid library in strict mode', async () => {
+    const composer = new EmailComposer(join(dir, 'config'), join(dir, 'blocks'));
+    const error = await composer.initialize({ strict: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BlockLibraryError);
+    expect(error.issues.length).toBeGreaterThan(0);
+
+    await new EmailComposer(join(ROOT, 'config'), join(ROOT, 'blocks')).initialize({ strict: true });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for the campaign builder and event graph validation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { CampaignBuilder, CampaignEvents, validateCampaign } from '../src/api/campaign-builder';
+import { MauticCampaignGraphError } from '../src/api/errors';
+import type { MauticCampaign } from '../src/types/mautic';
+
+const buildInvitation = (): MauticCampaign => {
+  const builder = new CampaignBuilder({ name: 'Summit invitation - VCs', isPublished: false })
+    .fromSegments(3)
+    .fromForms(9);
+  const opened = builder.start(CampaignEvents.sendEmail(12)).then(CampaignEvents.opensEmail());
+  opened.no(CampaignEvents.sendEmail(13, { name: 'Follow-up' }), { wait: { days: 3 } });
+  opened.yes(CampaignEvents.addPoints(10));
+  return builder.build();
+};
+
+describe('CampaignBuilder', () => {
+  test('should serialize events with parents, paths and timing', () => {
+    const campaign = buildInvitation();
+
+    expect(campaign.lists).toEqual([{ id: 3 }]);
+    expect(campaign.forms).toEqual([{ id: 9 }]);
+    expect(
+      campaign.events!.map(e => [e.id, e.type, e.eventType, e.parent, e.decisionPath, e.triggerMode])
+    ).toEqual([
+      ['new1', 'email.send', 'action', null, null, 'immediate'],
+      ['new2', 'email.open', 'decision', 'new1', null, null],
+      ['new3', 'email.send', 'action', 'new2', 'no', 'interval'],
+      ['new4', 'lead.changepoints', 'action', 'new2', 'yes', 'immediate'],
+    ]);
+    expect(campaign.events![2]).toMatchObject({
+      name: 'Follow-up',
+      triggerInterval: 3,
+      triggerIntervalUnit: 'd',
+      properties: { email: 13, email_type: 'marketing' },
+    });
+    expect(campaign.events![3].properties).toEqual({ points: 10 });
+  });
+
+  test('should connect sources and decision paths on the canvas', () => {
+    const { canvasSettings } = buildInvitation();
+
+    expect(canvasSettings!.nodes.map(n => n.id)).toEqual(['lists', 'forms', 'new1', 'new2', 'new3', 'new4']);
+    expect(canvasSettings!.connections.map(c => `${c.sourceId}-${c.anchors.source}->${c.targetId}`)).toEqual([
+      'lists-leadsource->new1',
+      'forms-leadsource->new1',
+      'new1-bottom->new2',
+      'new2-no->new3',
+      'new2-yes->new4',
+    ]);
+  });
+
+  test('should schedule events for a fixed date', () => {
+    const builder = new CampaignBuilder({ name: 'Reminder' }).fromSegments(1);
+    builder.start(CampaignEvents.sendEmail(20), { at: new Date('2025-03-20T08:00:00Z') });
+
+    expect(builder.build().events![0]).toMatchObject({
+      triggerMode: 'date',
+      triggerDate: '2025-03-20 08:00:00',
+    });
+  });
+
+  test('should reject misuse of decisions and actions while building', () => {
+    const builder = new CampaignBuilder({ name: 'Broken' }).fromSegments(1);
+    const send = builder.start(CampaignEvents.sendEmail(12));
+    const opened = send.then(CampaignEvents.opensEmail());
+
+    expect(() => send.yes(CampaignEvents.addPoints(5))).toThrow(MauticCampaignGraphError);
+    expect(() => opened.then(CampaignEvents.addPoints(5))).toThrow('use yes() or no()');
+    expect(() => opened.no(CampaignEvents.clicksEmail())).not.toThrow();
+    expect(() => builder.build()).toThrow('cannot directly follow decision');
+  });
+
+  test('should require a source and single-unit waits', () => {
+    const noSource = new CampaignBuilder({ name: 'No source' });
+    noSource.start(CampaignEvents.sendEmail(12));
+    expect(() => noSource.build()).toThrow('no source segment or form');
+
+    const badWait = new CampaignBuilder({ name: 'Bad wait' }).fromSegments(1);
+    badWait.start(CampaignEvents.sendEmail(12), { wait: { days: 1, hours: 2 } });
+    expect(() => badWait.build()).toThrow('exactly one unit');
+  });
+});
+
+describe('validateCampaign', () => {
+  test('should accept builder output', () => {
+    expect(validateCampaign(buildInvitation())).toEqual([]);
+  });
+
+  test('should report unknown parents, cycles, missing paths and orphans', () => {
+    const campaign = buildInvitation();
+    const events = campaign.events!;
+    events[1].parent = 'new99';
+    events[2].decisionPath = null;
+    events.push({ ...events[3], id: 'new5', parent: 'new6', decisionPath: null });
+    events.push({ ...events[3], id: 'new6', parent: 'new5', decisionPath: null });
+
+    expect(validateCampaign(campaign)).toEqual([
+      'Event "Opens email" (new2) has unknown parent new99',
+      'Event "Follow-up" (new3) follows decision "Opens email" and needs a yes or no path',
+      'Event "Add 10 points" (new5) is part of a parent cycle',
+      'Event "Add 10 points" (new6) is part of a parent cycle',
+      'Event "Opens email" (new2) is orphaned on the canvas',
+      'Event "Follow-up" (new3) is orphaned on the canvas',
+      'Event "Add 10 points" (new5) is orphaned on the canvas',
+      'Event "Add 10 points" (new6) is orphaned on the canvas',
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for campaign membership, contact position and cloning
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticCampaigns } from '../src/api/campaigns';
+
+describe('MauticCampaigns contact lifecycle', () => {
+  const members = new Set<number>([101, 102, 103]);
+  const requests: Array<{ method: string; path: string; body: any }> = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const text = await request.text();
+      requests.push({ method: request.method, path: url.pathname, body: text ? JSON.parse(text) : undefined });
+
+      const membership = url.pathname.match(/^\/api\/campaigns\/4\/contact\/(\d+)\/(add|remove)$/);
+      if (membership) {
+        const contactId = Number(membership[1]);
+        if (contactId === 999) {
+          return Response.json({ errors: [{ message: 'Item was not found.', code: 404 }] }, { status: 404 });
+        }
+        if (membership[2] === 'add') members.add(contactId);
+        else members.delete(contactId);
+        return Response.json({ success: 1 });
+      }
+
+      if (url.pathname === '/api/campaigns/4/contacts') {
+        const start = Number(url.searchParams.get('start') || 0);
+        const limit = Number(url.searchParams.get('limit') || 30);
+        const ids = [...members].sort();
+        return Response.json({
+          total: String(ids.length),
+          contacts: ids.slice(start, start + limit).map(id => ({
+            campaign_id: '4',
+            lead_id: String(id),
+            date_added: '2025-03-01 08:00:00',
+            manually_removed: '0',
+            manually_added: id === 101 ? '1' : '0',
+            date_last_exited: null,
+            rotation: '1',
+          })),
+        });
+      }
+
+      if (url.pathname === '/api/campaigns/4/events/contact/101') {
+        return Response.json({
+          total: 3,
+          events: [
+            {
+              event: { id: 12, name: 'Opens email', type: 'email.open', eventType: 'decision' },
+              dateTriggered: null,
+              triggerDate: '2025-03-04 08:00:00',
+              isScheduled: true,
+            },
+            {
+              event: { id: 11, name: 'Send invitation', type: 'email.send', eventType: 'action' },
+              dateTriggered: '2025-03-01 08:00:05',
+              triggerDate: null,
+              isScheduled: false,
+            },
+          ],
+        });
+      }
+
+      if (url.pathname === '/api/campaigns/clone/4') {
+        return Response.json({ campaign: { id: 8, name: 'Summit 2024 invitation' } });
+      }
+      if (url.pathname === '/api/campaigns/8/edit') {
+        return Response.json({ campaign: { id: 8, name: 'Summit 2024 invitation', ...JSON.parse(text) } });
+      }
+
+      return Response.json({}, { status: 404 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const campaigns = new MauticCampaigns(
+    new MauticClient({
+      baseUrl: `http://localhost:${server.port}`,
+      authMethod: 'bearer',
+      accessToken: 'test_token',
+      retry: { maxAttempts: 1 },
+    })
+  );
+
+  test('should add contacts in bulk and report failures per contact', async () => {
+    const progress: number[] = [];
+    const result = await campaigns.addContacts(4, [104, 999, 105], {
+      onProgress: processed => progress.push(processed),
+    });
+
+    expect(result.succeeded).toBe(2);
+    expect(result.failed).toBe(1);
+    expect(result.results.find(r => r.contactId === 999)).toMatchObject({
+      success: false,
+      error: { message: expect.stringContaining('Item was not found.'), code: 404 },
+    });
+    expect(progress).toEqual([1, 2, 3]);
+
+    const removed = await campaigns.removeContacts(4, [104, 105]);
+    expect(removed.succeeded).toBe(2);
+  });
+
+  test('should iterate typed campaign memberships', async () => {
+    const memberships = [];
+    for await (const membership of campaigns.iterateContacts(4, { limit: 2 })) {
+      memberships.push(membership);
+    }
+
+    expect(memberships.map(m => m.contactId)).toEqual([101, 102, 103]);
+    expect(memberships[0]).toEqual({
+      contactId: 101,
+      campaignId: 4,
+      dateAdded: '2025-03-01 08:00:00',
+      manuallyAdded: true,
+      manuallyRemoved: false,
+      dateLastExited: null,
+      rotation: 1,
+    });
+  });
+
+  test('should read the contact position from the event log', async () => {
+    const position = await campaigns.getContactPosition(4, 101);
+
+    expect(position.log.map(e => e.event.name)).toEqual(['Send invitation', 'Opens email']);
+    expect(position.lastEvent?.event.type).toBe('email.send');
+    expect(position.scheduled.map(e => e.triggerDate)).toEqual(['2025-03-04 08:00:00']);
+  });
+
+  test('should clone and re-target a campaign', async () => {
+    const copy = await campaigns.clone(4, { name: 'Summit 2025 invitation', lists: [{ id: 12 }] });
+
+    expect(copy).toMatchObject({ id: 8, name: 'Summit 2025 invitation', lists: [{ id: 12 }] });
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'POST /api/campaigns/clone/4',
+      'PATCH /api/campaigns/8/edit',
+    ]);
+  });
+});
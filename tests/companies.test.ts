@@ -0,0 +1,145 @@
+/**
+ * Tests for the companies API and contact-company linking
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticCompanies } from '../src/api/companies';
+import type { MauticContact } from '../src/types/mautic';
+
+describe('MauticCompanies', () => {
+  let companies: Record<number, string> = {};
+  let failingCompanies: string[] = [];
+  const requests: string[] = [];
+
+  // SQL LIKE as the server runs it: case-insensitive collation, whitespace kept as is
+  const like = (value: string, pattern: string) => {
+    const source = pattern.replace(/\\(.)|(%)|(_)|[.*+?^${}()|[\]\\]/g, (match, escaped, percent, underscore) =>
+      escaped ? escaped.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : percent ? '.*' : underscore ? '.' : `\\${match}`
+    );
+    return new RegExp(`^${source}$`, 'is').test(value);
+  };
+
+  const toCompany = (id: number) => ({
+    id,
+    fields: { all: { id, companyname: companies[id] }, core: { companyname: { value: companies[id] } } },
+  });
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      requests.push(`${request.method} ${url.pathname}`);
+
+      if (request.method === 'GET' && url.pathname === '/api/companies') {
+        expect(url.searchParams.get('where[0][expr]')).toBe('like');
+        const pattern = url.searchParams.get('where[0][val]') || '';
+        const ids = Object.keys(companies)
+          .map(Number)
+          .filter(id => like(companies[id], pattern));
+        return Response.json({
+          total: ids.length,
+          companies: Object.fromEntries(ids.map(id => [id, toCompany(id)])),
+        });
+      }
+
+      if (url.pathname === '/api/companies/new') {
+        const body = (await request.json()) as any;
+        if (failingCompanies.includes(body.companyname)) {
+          return Response.json({ errors: [{ code: 400, message: 'companyname: Invalid value' }] }, { status: 400 });
+        }
+        const id = Math.max(0, ...Object.keys(companies).map(Number)) + 1;
+        companies[id] = body.companyname;
+        return Response.json({ company: toCompany(id) });
+      }
+
+      if (/^\/api\/companies\/\d+\/contact\/\d+\/add$/.test(url.pathname)) {
+        return Response.json({ success: 1 });
+      }
+
+      return Response.json({}, { status: 404 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+  beforeEach(() => {
+    companies = { 5: 'BioTech Ventures GmbH' };
+    failingCompanies = [];
+    requests.length = 0;
+  });
+
+  const api = new MauticCompanies(
+    new MauticClient({
+      baseUrl: `http://localhost:${server.port}`,
+      authMethod: 'bearer',
+      accessToken: 'test_token',
+      retry: { maxAttempts: 1 },
+    })
+  );
+
+  const contact = (id: number, company?: string): MauticContact => ({
+    id,
+    fields: { core: {}, all: { id, company } } as any,
+  });
+
+  test('should find companies by name ignoring case', async () => {
+    const company = await api.findByName('biotech ventures gmbh');
+    expect(company?.id).toBe(5);
+    expect(await api.findByName('Unknown AG')).toBeNull();
+  });
+
+  test('should find companies whose stored name has different whitespace', async () => {
+    companies[7] = ' Charité  Startup\tFactory';
+    companies[8] = 'Charité Startup Factory Alumni';
+
+    expect((await api.findByName('charité startup factory'))?.id).toBe(7);
+    expect((await api.findByName('BioTech   Ventures GmbH '))?.id).toBe(5);
+    expect(await api.findByName('BioTech_Ventures GmbH')).toBeNull();
+  });
+
+  test('should create missing companies once and link every contact', async () => {
+    const result = await api.linkContactsToCompanies([
+      contact(1, 'BioTech Ventures GmbH'),
+      contact(2, 'Charité  Startup Factory'),
+      contact(3, 'biotech ventures gmbh'),
+      contact(4, 'charité startup factory'),
+      contact(6),
+    ]);
+
+    expect(result.skippedContactIds).toEqual([6]);
+    expect(result.failed).toEqual([]);
+    expect(
+      result.companies.map(c => [c.organization, c.company.id, c.created, c.contactIds])
+    ).toEqual([
+      ['BioTech Ventures GmbH', 5, false, [1, 3]],
+      ['Charité  Startup Factory', 6, true, [2, 4]],
+    ]);
+    expect(requests.filter(r => r === 'POST /api/companies/new')).toHaveLength(1);
+    expect(requests.filter(r => r.endsWith('/add')).sort()).toEqual([
+      'POST /api/companies/5/contact/1/add',
+      'POST /api/companies/5/contact/3/add',
+      'POST /api/companies/6/contact/2/add',
+      'POST /api/companies/6/contact/4/add',
+    ]);
+  });
+  test('should report organizations that fail and link the rest', async () => {
+    failingCompanies = ['Broken Labs'];
+
+    const result = await api.linkContactsToCompanies([
+      contact(1, 'Broken Labs'),
+      contact(2, 'BioTech Ventures GmbH'),
+      contact(3, 'broken  labs'),
+    ]);
+
+    expect(result.companies.map(c => [c.organization, c.company.id, c.contactIds])).toEqual([
+      ['BioTech Ventures GmbH', 5, [2]],
+    ]);
+    expect(result.failed).toEqual([
+      {
+        organization: 'Broken Labs',
+        contactIds: [1, 3],
+        error: { message: 'POST /companies/new failed: companyname: Invalid value', code: 400, details: {} },
+      },
+    ]);
+  });
+});
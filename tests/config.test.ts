@@ -0,0 +1,108 @@
+/**
+ * Tests for auth method configuration
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { loadConfig, validateConfig } from '../src/config/env';
+import { MauticClient } from '../src/api/client';
+
+describe('loadConfig', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith('MAUTIC_')) delete process.env[key];
+    }
+    process.env.MAUTIC_BASE_URL = 'https://mautic.example.com';
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('should only require client credentials by default', () => {
+    process.env.MAUTIC_CLIENT_ID = 'id';
+    process.env.MAUTIC_CLIENT_SECRET = 'secret';
+
+    const config = loadConfig();
+    expect(config.authMethod).toBe('oauth2-client-credentials');
+    expect(validateConfig(config)).toBe(true);
+  });
+
+  test('should require the callback URL for the auth code flow', () => {
+    process.env.MAUTIC_AUTH_METHOD = 'oauth2-auth-code';
+    process.env.MAUTIC_CLIENT_ID = 'id';
+    process.env.MAUTIC_CLIENT_SECRET = 'secret';
+
+    expect(() => loadConfig()).toThrow('MAUTIC_CALLBACK_URL');
+  });
+
+  test('should accept basic auth without OAuth2 credentials', () => {
+    process.env.MAUTIC_AUTH_METHOD = 'basic';
+    process.env.MAUTIC_USERNAME = 'api-user';
+    process.env.MAUTIC_PASSWORD = 'pass';
+
+    const config = loadConfig();
+    expect(config.username).toBe('api-user');
+    expect(validateConfig(config)).toBe(true);
+    expect(validateConfig({ ...config, password: undefined })).toBe(false);
+  });
+
+  test('should reject unknown auth methods', () => {
+    process.env.MAUTIC_AUTH_METHOD = 'magic';
+    expect(() => loadConfig()).toThrow('Invalid MAUTIC_AUTH_METHOD');
+  });
+});
+
+describe('MauticClient auth methods', () => {
+  let tokenRequests = 0;
+
+  const server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      if (new URL(request.url).pathname === '/oauth/v2/token') {
+        tokenRequests++;
+      }
+      return Response.json({ auth: request.headers.get('Authorization') });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+
+  const baseUrl = `http://localhost:${server.port}`;
+
+  test('should send basic credentials', async () => {
+    const client = new MauticClient({
+      baseUrl,
+      authMethod: 'basic',
+      username: 'api-user',
+      password: 'pass',
+    });
+
+    const response = await client.get<any>('/contacts');
+    expect(response.auth).toBe(`Basic ${Buffer.from('api-user:pass').toString('base64')}`);
+  });
+
+  test('should send a pre-issued bearer token without refreshing', async () => {
+    tokenRequests = 0;
+    const client = new MauticClient({ baseUrl, authMethod: 'bearer', accessToken: 'static' });
+
+    const response = await client.get<any>('/contacts');
+    expect(response.auth).toBe('Bearer static');
+    expect(tokenRequests).toBe(0);
+  });
+
+  test('should not fall back to client credentials in the auth code flow', async () => {
+    tokenRequests = 0;
+    const client = new MauticClient({
+      baseUrl,
+      authMethod: 'oauth2-auth-code',
+      clientId: 'id',
+      clientSecret: 'secret',
+      callbackUrl: 'http://localhost:3000/callback',
+    });
+
+    await expect(client.get<any>('/contacts')).rejects.toThrow('mautic login');
+    expect(tokenRequests).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for CSV/XLSX contact import
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { join } from 'path';
+import { parseCsv } from '../src/import/csv-parser';
+import { parseXlsx } from '../src/import/xlsx-reader';
+import { ContactImporter } from '../src/import/contact-importer';
+import { promises as fs } from 'fs';
+
+const fixture = join(import.meta.dir, 'fixtures/contacts.xlsx');
+
+describe('parseCsv', () => {
+  test('should handle quotes, embedded newlines and line numbers', () => {
+    const rows = parseCsv(
+      'email,note\r\na@b.de,"Hello, ""World"""\r\nc@d.de,"multi\nline"\r\n\r\ne@f.de,last'
+    );
+
+    expect(rows).toEqual([
+      { line: 2, values: { email: 'a@b.de', note: 'Hello, "World"' } },
+      { line: 3, values: { email: 'c@d.de', note: 'multi\nline' } },
+      { line: 6, values: { email: 'e@f.de', note: 'last' } },
+    ]);
+  });
+
+  test('should detect semicolon delimiters and strip a BOM', () => {
+    const rows = parseCsv('\uFEFFE-Mail;Vorname\nanna@biotech.de;Anna\n');
+    expect(rows).toEqual([{ line: 2, values: { 'E-Mail': 'anna@biotech.de', Vorname: 'Anna' } }]);
+  });
+});
+
+describe('parseXlsx', () => {
+  test('should default to the first sheet in workbook order', async () => {
+    // "Notes" is listed first but stored as sheet2.xml; it only has a header row
+    expect(parseXlsx(await fs.readFile(fixture))).toEqual([]);
+  });
+
+  test('should read shared, rich-text and inline strings from a named sheet', async () => {
+    const rows = parseXlsx(await fs.readFile(fixture), 'Kontakte');
+
+    expect(rows.map(r => r.line)).toEqual([2, 4, 5]);
+    expect(rows[0].values).toEqual({
+      'E-Mail': 'anna.schmidt@biotech.de',
+      Vorname: 'Anna',
+      Nachname: 'Schmidt',
+      Zielgruppe: 'vcs',
+      Organisation: 'BioTech Ventures GmbH & Co. KG',
+      Tags: 'investor, 2025',
+    });
+    expect(rows[2].values['E-Mail']).toBe('lena@press.example');
+  });
+
+  test('should reject files that are not zip archives', () => {
+    expect(() => parseXlsx(new TextEncoder().encode('email,name\n'.repeat(3)))).toThrow(
+      'not a zip archive'
+    );
+  });
+});
+
+describe('ContactImporter', () => {
+  const importer = new ContactImporter({
+    columns: {
+      email: 'E-Mail',
+      first_name: 'Vorname',
+      last_name: 'Nachname',
+      audience_type: 'Zielgruppe',
+      organization_name: 'Organisation',
+    },
+    defaults: { sender_name: 'Dr. Maria Weber' },
+    required: ['first_name'],
+    audienceTypes: ['vcs', 'journalists', 'mentors'],
+    mauticFields: { audience_type: 'audience_type' },
+    tags: ['summit-import'],
+    tagsColumn: 'Tags',
+  });
+
+  test('should map rows to composer and Mautic contacts', () => {
+    const result = importer.importCsv(
+      'e-mail,vorname,nachname,zielgruppe,organisation,tags\n' +
+        'Jan.Berg@Mentors.example ,Jan,Berg,mentors,Mentor Network,"mentor;summit-import"\n'
+    );
+
+    expect(result.rejected).toEqual([]);
+    expect(result.contacts).toEqual([
+      {
+        sender_name: 'Dr. Maria Weber',
+        email: 'jan.berg@mentors.example',
+        first_name: 'Jan',
+        last_name: 'Berg',
+        audience_type: 'mentors',
+        organization_name: 'Mentor Network',
+      },
+    ]);
+    expect(result.mauticContacts).toEqual([
+      {
+        email: 'jan.berg@mentors.example',
+        firstname: 'Jan',
+        lastname: 'Berg',
+        company: 'Mentor Network',
+        audience_type: 'mentors',
+        tags: ['summit-import', 'mentor'],
+      },
+    ]);
+  });
+
+  test('should report rejected rows with line numbers', () => {
+    const result = importer.importCsv(
+      [
+        'E-Mail,Vorname,Zielgruppe',
+        'a@startup.example,Ana,vcs',
+        'broken-address,Ben,vcs',
+        ',Cara,vcs',
+        'd@startup.example,,vcs',
+        'e@startup.example,Eva,students',
+        'A@startup.example,Ana,vcs',
+      ].join('\n')
+    );
+
+    expect(result.contacts.map(c => c.email)).toEqual(['a@startup.example']);
+    expect(result.rejected.map(r => [r.line, r.errors])).toEqual([
+      [3, ['Invalid email: broken-address']],
+      [4, ['Missing email']],
+      [5, ['Missing first_name']],
+      [6, ['Unknown audience_type: students']],
+      [7, ['Duplicate email a@startup.example (first seen on line 2)']],
+    ]);
+  });
+
+  test('should fall back to the mapping audience type', () => {
+    const result = new ContactImporter({ columns: { email: 'email' }, audienceType: 'vips' }).importCsv(
+      'email\nceo@corp.example\n'
+    );
+    expect(result.contacts[0].audience_type).toBe('vips');
+  });
+
+  test('should import xlsx files by extension', async () => {
+    const result = await importer.importFile(fixture, { sheet: 'Kontakte' });
+
+    expect(result.rows.map(r => [r.line, r.contact.email])).toEqual([[2, 'anna.schmidt@biotech.de']]);
+    expect(result.mauticContacts[0].tags).toEqual(['summit-import', 'investor', '2025']);
+    expect(result.rejected.map(r => [r.line, r.errors])).toEqual([
+      [4, ['Invalid email: not-an-email']],
+      [5, ['Missing first_name']],
+    ]);
+  });
+
+  test('should refuse unknown file types', async () => {
+    await expect(importer.importFile('contacts.pdf')).rejects.toThrow('Unsupported import file type');
+  });
+});
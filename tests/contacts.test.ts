@@ -0,0 +1,230 @@
+/**
+ * Tests for contact upsert and deduplication
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticContacts, normalizeEmail } from '../src/api/contacts';
+
+describe('normalizeEmail', () => {
+  test('should lowercase and strip plus tags', () => {
+    expect(normalizeEmail('  A.Mueller+summit@Biotech-Ventures.de ')).toBe(
+      'a.mueller@biotech-ventures.de'
+    );
+  });
+
+  test('should ignore dots for Gmail addresses', () => {
+    expect(normalizeEmail('Sophie.Dubois@googlemail.com')).toBe('sophiedubois@gmail.com');
+  });
+});
+
+describe('MauticContacts upsert', () => {
+  let stored: Record<number, any> = {};
+  const requests: string[] = [];
+
+  const toContact = (id: number) => ({
+    id,
+    points: stored[id].points || 0,
+    fields: { all: { id, ...stored[id].fields } },
+    tags: (stored[id].tags || []).map((tag: string) => ({ id: 1, tag })),
+  });
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      requests.push(`${request.method} ${url.pathname}`);
+
+      if (request.method === 'GET' && url.pathname === '/api/contacts') {
+        const email = url.searchParams.get('where[0][val]');
+        const start = Number(url.searchParams.get('start') || 0);
+        const limit = Number(url.searchParams.get('limit') || 100);
+        const ids = Object.keys(stored)
+          .map(Number)
+          .filter(id => !email || stored[id].fields.email.toLowerCase() === email.toLowerCase());
+        const page = ids.slice(start, start + limit);
+        return Response.json({
+          total: ids.length,
+          contacts: Object.fromEntries(page.map(id => [id, toContact(id)])),
+        });
+      }
+
+      const body = request.body ? await request.json() : {};
+      if (url.pathname === '/api/contacts/new') {
+        const id = Object.keys(stored).length + 1;
+        const { tags, ...fields } = body as any;
+        stored[id] = { fields, tags };
+        return Response.json({ contact: toContact(id) });
+      }
+
+      const match = url.pathname.match(/\/api\/contacts\/(\d+)\/edit/);
+      if (match) {
+        const id = Number(match[1]);
+        const { tags = [], ...fields } = body as any;
+        stored[id].fields = { ...stored[id].fields, ...fields };
+        stored[id].tags = [...(stored[id].tags || []), ...tags];
+        return Response.json({ contact: toContact(id) });
+      }
+
+      return Response.json({}, { status: 404 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+
+  const contacts = new MauticContacts(
+    new MauticClient({
+      baseUrl: `http://localhost:${server.port}`,
+      authMethod: 'bearer',
+      accessToken: 'test_token',
+    })
+  );
+
+  beforeEach(() => {
+    stored = {};
+    requests.length = 0;
+  });
+
+  test('should create, then leave unchanged, then patch changed fields only', async () => {
+    const params = {
+      email: 'a.mueller@biotech-ventures.de',
+      firstname: 'Andreas',
+      company: 'BioTech Ventures GmbH',
+      tags: ['vc'],
+    };
+
+    const created = await contacts.upsertByEmail(params);
+    expect(created.action).toBe('created');
+
+    const unchanged = await contacts.upsertByEmail({ ...params, email: 'A.Mueller@biotech-ventures.de' });
+    expect(unchanged.action).toBe('unchanged');
+    expect(requests.filter(r => r.includes('/edit'))).toHaveLength(0);
+
+    const updated = await contacts.upsertByEmail({ ...params, company: 'BTV', tags: ['vc', 'investor'] });
+    expect(updated.action).toBe('updated');
+    expect(updated.changedFields.sort()).toEqual(['company', 'tags']);
+    expect(stored[1].tags).toEqual(['vc', 'investor']);
+  });
+
+  test('should reject contacts without the unique field', async () => {
+    await expect(contacts.upsertByEmail({ email: '' })).rejects.toThrow('email');
+  });
+
+  test('should group duplicates by normalized email', async () => {
+    stored = {
+      1: { fields: { email: 'sophie.dubois@gmail.com' }, points: 5 },
+      2: { fields: { email: 'SophieDubois+summit@gmail.com' }, points: 20 },
+      3: { fields: { email: 'a.mueller@biotech-ventures.de' } },
+    };
+
+    const groups = await contacts.findDuplicates({ pageSize: 2 });
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].normalizedEmail).toBe('sophiedubois@gmail.com');
+    expect(groups[0].primary.id).toBe(2);
+    expect(groups[0].duplicates.map(c => c.id)).toEqual([1]);
+  });
+});
+
+describe('MauticContacts sub-resources', () => {
+  const calls: Array<{ method: string; path: string; query: string; body: any }> = [];
+
+  const responses: Record<string, unknown> = {
+    'POST /api/contacts/7/dnc/email/add': { contact: { id: 7 } },
+    'GET /api/contacts/7/segments': {
+      total: 2,
+      lists: { 3: { id: 3, name: 'Investors', alias: 'investors' }, 1: { id: 1, name: 'VIPs', alias: 'vips' } },
+    },
+    'GET /api/contacts/7/activity': {
+      events: [{ event: 'email.read', timestamp: '2025-03-01T10:00:00+00:00' }],
+      total: 1,
+      page: 1,
+      limit: 25,
+      maxPages: 1,
+      types: { 'email.read': 'Email read' },
+    },
+    'POST /api/notes/new': { note: { id: 11, text: 'Met at BIO-Europe', type: 'meeting' } },
+    'GET /api/contacts/list/owners': [{ id: 2, firstName: 'Maria', lastName: 'Weber' }],
+    'GET /api/fields/contact': {
+      total: 2,
+      fields: [
+        { id: 2, label: 'Last Name', alias: 'lastname', type: 'text', group: 'core', object: 'lead' },
+        { id: 42, label: 'Audience Type', alias: 'audience_type', type: 'select', group: 'core', object: 'lead' },
+      ],
+    },
+  };
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const key = `${request.method} ${url.pathname}`;
+      const text = await request.text();
+      calls.push({
+        method: request.method,
+        path: url.pathname,
+        query: decodeURIComponent(url.search),
+        body: text ? JSON.parse(text) : undefined,
+      });
+      return key in responses ? Response.json(responses[key]) : Response.json({}, { status: 404 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  const contacts = new MauticContacts(
+    new MauticClient({
+      baseUrl: `http://localhost:${server.port}`,
+      authMethod: 'bearer',
+      accessToken: 'test_token',
+    })
+  );
+
+  test('should add do-not-contact with a manual reason by default', async () => {
+    await contacts.addDoNotContact(7, 'email', { comments: 'Asked by phone' });
+    expect(calls[0].body).toEqual({ reason: 3, comments: 'Asked by phone' });
+  });
+
+  test('should map segment memberships and activity to typed results', async () => {
+    const { total, segments } = await contacts.getSegments(7);
+    expect(total).toBe(2);
+    expect(segments.map(s => s.alias)).toEqual(['vips', 'investors']);
+
+    const activity = await contacts.getActivity(7, {
+      includeEvents: ['email.read'],
+      dateFrom: new Date('2025-03-01T00:00:00Z'),
+      limit: 25,
+    });
+    expect(activity.events[0].event).toBe('email.read');
+    expect(activity.maxPages).toBe(1);
+    expect(calls[1].query).toBe(
+      '?filters[includeEvents][0]=email.read&filters[dateFrom]=2025-03-01 00:00:00&limit=25'
+    );
+  });
+
+  test('should create notes for the contact with Mautic date formatting', async () => {
+    const note = await contacts.addNote(7, {
+      text: 'Met at BIO-Europe',
+      type: 'meeting',
+      dateTime: new Date('2025-03-24T14:30:00Z'),
+    });
+
+    expect(note.id).toBe(11);
+    expect(calls[0].body).toEqual({
+      lead: 7,
+      type: 'meeting',
+      text: 'Met at BIO-Europe',
+      dateTime: '2025-03-24 14:30:00',
+    });
+  });
+
+  test('should read owners and field definitions as arrays', async () => {
+    expect(await contacts.getOwners()).toEqual([{ id: 2, firstName: 'Maria', lastName: 'Weber' }]);
+
+    const fields = await contacts.listFields();
+    expect(fields.map(f => f.alias)).toEqual(['lastname', 'audience_type']);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for block selection and email composition
+ */
+
+import { describe, test, expect, beforeAll } from 'bun:test';
+import { join } from 'path';
+import { EmailComposer } from '../src/email-composer/email-composer';
+import { BlockSelector } from '../src/email-composer/block-selector';
+import type { ContactData, EmailBlock } from '../src/types/email-composer';
+
+const ROOT = join(import.meta.dir, '..', 'src/email-composer');
+
+const VC: ContactData = {
+  audience_type: 'vcs',
+  email: 'a.mueller@biotech-ventures.de',
+  first_name: 'Anna',
+  last_name: 'Mueller',
+  organization_name: 'BioTech Ventures',
+  sender_name: 'Max',
+};
+
+describe('placeholder-aware variant selection', () => {
+  const composer = new EmailComposer(join(ROOT, 'config'), join(ROOT, 'blocks'));
+
+  beforeAll(() => composer.initialize({ strict: true }));
+
+  test('should use the first variant when all its placeholders are filled', async () => {
+    const email = await composer.composeEmail({ ...VC, title: 'Dr.' });
+
+    expect(email.body).toStartWith('Dear Dr. Mueller,');
+    expect(email.metadata.variants_used[0]).toEqual({
+      block: 'greeting-formal',
+      variant: 'formal-dear-title',
+      locale: 'en',
+      reason: 'complete',
+      missing: [],
+      skipped: [],
+    });
+  });
+
+  test('should skip variants with empty placeholders', async () => {
+    const withoutTitle = await composer.composeEmail(VC);
+    expect(withoutTitle.body).toStartWith('Dear Anna Mueller,');
+    expect(withoutTitle.metadata.variants_used[0]).toMatchObject({
+      variant: 'formal-dear-full',
+      reason: 'complete',
+      skipped: ['formal-dear-title'],
+    });
+
+    const withoutName = await composer.composeEmail({ ...VC, first_name: '', last_name: ' ' });
+    expect(withoutName.body).toStartWith('Greetings,');
+    expect(withoutName.metadata.variants_used[0]).toMatchObject({
+      variant: 'formal-greetings',
+      skipped: ['formal-dear-title', 'formal-dear-full'],
+    });
+  });
+
+  test('should honor variant preferences only when their placeholders are filled', async () => {
+    const preferred = await composer.composeEmail(VC, {
+      variantPreferences: { 'greeting-formal': 'formal-greetings' },
+    });
+    expect(preferred.body).toStartWith('Greetings,');
+    expect(preferred.metadata.variants_used[0]).toMatchObject({ reason: 'preferred', skipped: [] });
+
+    const incomplete = await composer.composeEmail(VC, {
+      variantPreferences: { 'greeting-formal': 'formal-dear-title' },
+    });
+    expect(incomplete.body).toStartWith('Dear Anna Mueller,');
+    expect(incomplete.metadata.variants_used[0]).toMatchObject({ reason: 'complete', skipped: ['formal-dear-title'] });
+  });
+
+  test('should record a choice for every block in body order', async () => {
+    const email = await composer.composeEmail(VC);
+
+    expect(email.metadata.variants_used.map(choice => choice.block)).toEqual([
+      'greeting-formal',
+      'opener-invitation',
+      'intention-invite-attend',
+      'event-info-detailed',
+      'value-prop-deal-flow',
+      'value-prop-networking',
+      'cta-buy-ticket',
+      'closing-formal',
+    ]);
+  });
+
+  test('should not count placeholders with a default as missing', async () => {
+    const email = await composer.composeEmail({
+      audience_type: 'startups-pitch',
+      email: 'founder@example.com',
+    });
+
+    expect(email.body).toStartWith('Hi there,');
+    expect(email.metadata.variants_used[0]).toMatchObject({ variant: 'casual-hi-there', reason: 'complete' });
+  });
+
+  test('should render event details through dotted paths and loops', async () => {
+    const email = await composer.composeEmail(
+      { ...VC, audience_type: 'startups-pitch' },
+      { variantPreferences: { 'event-info-pitch-contest': 'contest-overview' } }
+    );
+
+    expect(email.body).toContain('Benefits include:\n\n- Direct access to top-tier investors\n- Exposure to media');
+    expect(email.metadata.variables_used).toContain('features.pitch_contest.benefits');
+  });
+
+  test('should fall back to the variant with the fewest empty placeholders', () => {
+    const block: EmailBlock = {
+      id: 'greeting-test',
+      category: 'greeting',
+      tags: [],
+      variants: [
+        { id: 'both', text: '{{a}} {{b}}', placeholders: ['a', 'b'] },
+        { id: 'one', text: '{{b}}', placeholders: ['b'] },
+      ],
+    };
+    const selector = new BlockSelector();
+
+    expect(selector.selectVariant(block, { variables: { a: '', b: null } })?.choice).toEqual({
+      block: 'greeting-test',
+      variant: 'one',
+      locale: 'en',
+      reason: 'fewest-missing',
+      missing: ['b'],
+      skipped: ['both'],
+    });
+    // Without variables the first variant is used as before
+    expect(selector.selectVariant(block)?.variant.id).toBe('both');
+  });
+});
+
+describe('locale-aware composition', () => {
+  const composer = new EmailComposer(join(ROOT, 'config'), join(ROOT, 'blocks'));
+
+  beforeAll(() => composer.initialize({ strict: true }));
+
+  test('should fall back from de-AT to German variants and subjects', async () => {
+    const email = await composer.composeEmail({ ...VC, locale: 'de-at' });
+
+    expect(email.subject).toBe('Einladung: SynBio Reactor Summit - Biotech-Startup-Showcase');
+    expect(email.body).toStartWith('Guten Tag Anna Mueller,');
+    expect(email.body).toContain('am 15. Juni 2024 in Berlin, Germany');
+    expect(email.body).toEndWith('Mit freundlichen Grüßen\nMax\n\n');
+    expect(email.metadata.locale).toBe('de-AT');
+    expect(new Set(email.metadata.variants_used.map(choice => choice.locale))).toEqual(new Set(['de']));
+  });
+
+  test('should report English fallback for blocks without the locale', async () => {
+    const email = await composer.composeEmail(
+      { ...VC, locale: 'en' },
+      { locale: 'de', blockOverrides: { cta: 'apply-contest' } }
+    );
+
+    const locales = Object.fromEntries(email.metadata.variants_used.map(choice => [choice.block, choice.locale]));
+    expect(locales['greeting-formal']).toBe('de');
+    expect(locales['cta-apply-contest']).toBe('en');
+  });
+
+  test('should keep English output unchanged without a locale', async () => {
+    const email = await composer.composeEmail(VC);
+
+    expect(email.subject).toBe('Invitation: SynBio Reactor Summit - Biotech Startup Showcase');
+    expect(email.body).toContain('taking place on June 15, 2024 in Berlin, Germany');
+    expect(email.metadata.locale).toBe('en');
+  });
+
+  test('should record the requested locale when composition fails', async () => {
+    const [result] = await composer.composeBatch([{ ...VC, locale: 'xx-invalid-' }]);
+
+    expect(result.error?.message).toBe('Invalid locale: "xx-invalid-"');
+    expect(result.email.metadata.locale).toBe('xx-invalid-');
+  });
+});
+
+describe('sticky variant assignment', () => {
+  const composer = new EmailComposer(join(ROOT, 'config'), join(ROOT, 'blocks'));
+  const selector = new BlockSelector();
+  const block: EmailBlock = {
+    id: 'cta-test',
+    category: 'cta',
+    tags: [],
+    variants: [
+      { id: 'a', text: 'A' },
+      { id: 'b', text: 'B' },
+      { id: 'c', text: 'C {{promo}}', placeholders: ['promo'] },
+    ],
+  };
+  const contacts = Array.from({ length: 400 }, (_, i) => `contact${i}@example.com`);
+
+  beforeAll(() => composer.initialize({ strict: true }));
+
+  test('should assign the same variant to a contact on every run', () => {
+    const experiment = { id: 'spring-2025' };
+    const first = contacts.map(email => selector.assignVariant(block, email, experiment)?.variant.id);
+    const again = contacts.map(email => selector.assignVariant(block, ` ${email.toUpperCase()}`, experiment)?.variant.id);
+    const other = contacts.map(email => selector.assignVariant(block, email, { id: 'summer-2025' })?.variant.id);
+
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect(new Set(first)).toEqual(new Set(['a', 'b', 'c']));
+  });
+
+  test('should follow weighted splits', () => {
+    const experiment = { id: 'spring-2025', splits: { 'cta-test': { a: 3, b: 1 } } };
+    const counts: Record<string, number> = {};
+    for (const email of contacts) {
+      const id = selector.assignVariant(block, email, experiment)!.variant.id;
+      counts[id] = (counts[id] || 0) + 1;
+    }
+
+    expect(Object.keys(counts).sort()).toEqual(['a', 'b']);
+    expect(counts.a / contacts.length).toBeGreaterThan(0.68);
+    expect(counts.a / contacts.length).toBeLessThan(0.82);
+    expect(selector.assignVariant({ ...block, id: 'cta-other' }, contacts[0], experiment)).toBeNull();
+  });
+
+  test('should only assign complete variants and record the assignment', () => {
+    const experiment = { id: 'spring-2025', splits: { 'cta-test': { a: 1, c: 1 } } };
+    const choices = contacts.map(
+      email => selector.selectVariant(block, { experiment, email, variables: { promo: '' } })!.choice
+    );
+
+    expect(new Set(choices.map(choice => choice.variant))).toEqual(new Set(['a']));
+    expect(choices[0]).toMatchObject({
+      reason: 'experiment',
+      skipped: ['c'],
+      assignment: { experiment: 'spring-2025', weights: { a: 1 } },
+    });
+    expect(choices[0].assignment!.bucket).toBeGreaterThanOrEqual(0);
+    expect(choices[0].assignment!.bucket).toBeLessThan(1);
+  });
+
+  test('should reproduce composed emails and let preferences win', async () => {
+    const experiment = { id: 'vc-cta', splits: { 'cta-buy-ticket': {} } };
+    const first = await composer.composeEmail(VC, { experiment });
+    const second = await composer.composeEmail(VC, { experiment });
+
+    expect(second).toEqual(first);
+    expect(first.metadata.experiment).toBe('vc-cta');
+    const cta = first.metadata.variants_used.find(choice => choice.block === 'cta-buy-ticket')!;
+    expect(cta.reason).toBe('experiment');
+    expect(Object.keys(cta.assignment!.weights)).toEqual([
+      'ticket-direct-link',
+      'ticket-urgency',
+      'ticket-full-info',
+      'ticket-early-bird',
+      'ticket-question-first',
+    ]);
+    // Blocks outside the splits keep the default selection
+    expect(first.metadata.variants_used[0].reason).toBe('complete');
+
+    const preferred = await composer.composeEmail(VC, {
+      experiment,
+      variantPreferences: { 'cta-buy-ticket': 'ticket-urgency' },
+    });
+    expect(preferred.metadata.variants_used.find(choice => choice.block === 'cta-buy-ticket')).toMatchObject({
+      variant: 'ticket-urgency',
+      reason: 'preferred',
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Tests for typed email stats and the engagement report
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticEmails } from '../src/api/emails';
+import {
+  EngagementReporter,
+  buildEngagementReport,
+  formatEngagementReport,
+  wilsonInterval,
+} from '../src/reporting/engagement-report';
+import type { EmailContactStats } from '../src/types/mautic';
+import type { EngagementRecord } from '../src/types/engagement-report';
+
+const EMAIL_STATS = [
+  { id: '1', email_id: '12', lead_id: '101', email_address: 'a.mueller@biotech-ventures.de', date_sent: '2025-03-10 09:00:00', is_read: '1', date_read: '2025-03-10 09:15:03', is_failed: '0', open_count: '2', source: 'campaign.event', source_id: '11' },
+  { id: '2', email_id: '12', lead_id: '102', email_address: 'j.weber@bioinvest.com', date_sent: '2025-03-10 09:00:00', is_read: '0', date_read: null, is_failed: '0', open_count: '0', source: 'campaign.event', source_id: '11' },
+  { id: '3', email_id: '12', lead_id: '103', email_address: 'bounce@example.com', date_sent: '2025-03-10 09:00:00', is_read: '0', date_read: null, is_failed: '1', open_count: '0', source: null, source_id: null },
+  { id: '4', email_id: '13', lead_id: '101', email_address: 'a.mueller@biotech-ventures.de', date_sent: '2025-03-13 09:00:00', is_read: '1', date_read: '2025-03-13 10:00:00', is_failed: '0', open_count: '1', source: null, source_id: null },
+];
+const PAGE_HITS = [
+  { id: '7', email_id: '12', lead_id: '101', redirect_id: '3' },
+  { id: '8', email_id: '12', lead_id: '101', redirect_id: '4' },
+];
+const DO_NOT_CONTACT = [
+  { id: '1', lead_id: '102', channel: 'email', channel_id: '12', reason: '1' },
+  { id: '2', lead_id: '103', channel: 'email', channel_id: '12', reason: '2' },
+];
+
+type Row = Record<string, string | null>;
+
+function applyWhere(rows: Row[], params: URLSearchParams): Row[] {
+  let filtered = rows;
+  for (let i = 0; params.has(`where[${i}][col]`); i++) {
+    const col = params.get(`where[${i}][col]`)!;
+    const expr = params.get(`where[${i}][expr]`);
+    const val = params.get(`where[${i}][val]`);
+    filtered = filtered.filter(row => (expr === 'isNotNull' ? row[col] != null : row[col] === val));
+  }
+  return filtered;
+}
+
+describe('MauticEmails stats', () => {
+  const server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const url = new URL(request.url);
+      const tables: Record<string, Row[]> = {
+        '/api/stats/email_stats': EMAIL_STATS,
+        '/api/stats/page_hits': PAGE_HITS,
+        '/api/stats/lead_donotcontact': DO_NOT_CONTACT,
+      };
+      const table = tables[url.pathname];
+      if (!table) return Response.json({}, { status: 404 });
+
+      const rows = applyWhere(table, url.searchParams);
+      const start = Number(url.searchParams.get('start') || 0);
+      const limit = Number(url.searchParams.get('limit') || 30);
+      return Response.json({ total: String(rows.length), stats: rows.slice(start, start + limit) });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+
+  const emails = new MauticEmails(
+    new MauticClient({
+      baseUrl: `http://localhost:${server.port}`,
+      authMethod: 'bearer',
+      accessToken: 'test_token',
+      retry: { maxAttempts: 1 },
+    })
+  );
+
+  test('should count sends, reads, clicks, bounces, unsubscribes and failures', async () => {
+    expect(await emails.getStats(12)).toEqual({
+      emailId: 12,
+      sent: 3,
+      read: 1,
+      clicked: 1,
+      bounced: 1,
+      unsubscribed: 1,
+      failed: 1,
+    });
+  });
+
+  test('should return per-contact stats across emails', async () => {
+    const stats = await emails.getContactStats(101);
+
+    expect(stats).toMatchObject({ contactId: 101, sent: 2, read: 2, clicked: 1 });
+    expect(stats.emails[0]).toEqual({
+      emailId: 12,
+      contactId: 101,
+      emailAddress: 'a.mueller@biotech-ventures.de',
+      dateSent: '2025-03-10 09:00:00',
+      dateRead: '2025-03-10 09:15:03',
+      openCount: 2,
+      read: true,
+      clicked: true,
+      bounced: false,
+      unsubscribed: false,
+      failed: false,
+      source: 'campaign.event',
+      sourceId: 11,
+    });
+    expect(stats.emails[1]).toMatchObject({ emailId: 13, clicked: false, source: null, sourceId: null });
+  });
+
+  test('should join recorded sends with stats and report unmatched sends', async () => {
+    const report = await new EngagementReporter(emails).generate([
+      { emailId: 12, contactId: 101, audienceType: 'vcs', variants: ['greeting-formal'], campaign: 'summit' },
+      { emailId: 12, contactId: 102, audienceType: 'vcs', variants: ['greeting-casual'], campaign: 'summit' },
+      { emailId: 12, contactId: 999, audienceType: 'vcs', campaign: 'summit' },
+    ]);
+
+    expect(report.total).toMatchObject({ sent: 2, read: 1, clicked: 1, unsubscribed: 1 });
+    expect(report.unmatched.map(s => s.contactId)).toEqual([999]);
+    expect(report.groups.filter(g => g.dimension === 'variant').map(g => [g.key, g.read])).toEqual([
+      ['greeting-casual', 0],
+      ['greeting-formal', 1],
+    ]);
+  });
+});
+
+describe('buildEngagementReport', () => {
+  const stats = (contactId: number, flags: Partial<EmailContactStats> = {}): EmailContactStats => ({
+    emailId: 12,
+    contactId,
+    emailAddress: `${contactId}@example.com`,
+    dateSent: '2025-03-10 09:00:00',
+    dateRead: null,
+    openCount: 0,
+    read: false,
+    clicked: false,
+    bounced: false,
+    unsubscribed: false,
+    failed: false,
+    source: null,
+    sourceId: null,
+    ...flags,
+  });
+
+  const records: EngagementRecord[] = [
+    {
+      send: {
+        emailId: 12,
+        contactId: 1,
+        metadata: {
+          audience_type: 'vcs',
+          tone: 'formal',
+          blocks_used: { greeting: 'greeting-formal', valueProps: ['deal-flow', 'networking'] },
+          variables_used: [],
+        },
+      },
+      stats: stats(1, { read: true, clicked: true }),
+    },
+    { send: { emailId: 12, contactId: 2, audienceType: 'vcs' }, stats: stats(2, { read: true }) },
+    { send: { emailId: 12, contactId: 3, audienceType: 'press, media' }, stats: stats(3) },
+  ];
+
+  test('should roll up by audience type, variant and campaign', () => {
+    const report = buildEngagementReport(records);
+
+    expect(report.groups.map(g => `${g.dimension}:${g.key}:${g.sent}`)).toEqual([
+      'audience_type:press, media:1',
+      'audience_type:vcs:2',
+      'variant:(none):2',
+      'variant:deal-flow:1',
+      'variant:greeting-formal:1',
+      'variant:networking:1',
+      'campaign:(none):3',
+    ]);
+    expect(report.total.rates.read.rate).toBe(0.6667);
+    expect(report.total.rates.clickToOpen.rate).toBe(0.5);
+  });
+
+  test('should key variants by block and variant when the composer recorded them', () => {
+    const report = buildEngagementReport(
+      [
+        {
+          send: {
+            emailId: 12,
+            contactId: 4,
+            metadata: {
+              audience_type: 'vcs',
+              tone: 'formal',
+              blocks_used: { greeting: 'greeting-formal' },
+              variables_used: [],
+              variants_used: [
+                { block: 'greeting-formal', variant: 'formal-dear-full', reason: 'complete', missing: [], skipped: ['formal-dear-title'] },
+              ],
+            },
+          },
+          stats: stats(4, { read: true }),
+        },
+      ],
+      { dimensions: ['variant'] }
+    );
+
+    expect(report.groups.map(g => g.key)).toEqual(['greeting-formal/formal-dear-full']);
+  });
+
+  test('should compute Wilson score intervals', () => {
+    expect(wilsonInterval(0, 0)).toEqual({ rate: 0, low: 0, high: 1 });
+    expect(wilsonInterval(45, 100)).toEqual({ rate: 0.45, low: 0.3561, high: 0.5476 });
+
+    const narrow = wilsonInterval(45, 100, 1.6449);
+    expect(narrow.low).toBeGreaterThan(0.3561);
+    expect(() => buildEngagementReport(records, { confidence: 0.5 })).toThrow('Unsupported confidence level');
+  });
+
+  test('should format the report as JSON and CSV', () => {
+    const report = buildEngagementReport(records, { dimensions: ['audience_type'] });
+
+    expect(JSON.parse(formatEngagementReport(report, 'json')).total.sent).toBe(3);
+
+    const lines = formatEngagementReport(report, 'csv').trimEnd().split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toStartWith('dimension,key,sent,read,clicked,bounced,unsubscribed,failed,read_rate,read_low,read_high');
+    expect(lines[1]).toStartWith('total,all,3,2,1,0,0,0,0.6667,');
+    expect(lines[2]).toStartWith('audience_type,"press, media",1,0,');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for typed Mautic errors
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticAuth } from '../src/api/auth';
+import {
+  MauticError,
+  MauticApiError,
+  MauticAuthError,
+  MauticNotFoundError,
+  MauticValidationError,
+  MauticRateLimitError,
+  MauticNetworkError,
+} from '../src/api/errors';
+import type { MauticConfig } from '../src/types/mautic';
+
+describe('MauticClient errors', () => {
+  const server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const path = new URL(request.url).pathname;
+      switch (path) {
+        case '/api/contacts/404':
+          return Response.json(
+            { errors: [{ code: 404, message: 'Item was not found.', details: [] }] },
+            { status: 404 }
+          );
+        case '/api/contacts/new':
+          return Response.json(
+            {
+              errors: [
+                {
+                  code: 400,
+                  message: 'email: A valid email is required.',
+                  details: { email: ['A valid email is required.'] },
+                },
+              ],
+            },
+            { status: 400 }
+          );
+        case '/api/contacts/limited':
+          return Response.json(
+            { errors: [{ message: 'Too many requests' }] },
+            { status: 429, headers: { 'Retry-After': '30' } }
+          );
+        case '/api/contacts/html':
+          return new Response('<html><body>Internal Server Error</body></html>', {
+            status: 500,
+            headers: { 'Content-Type': 'text/html' },
+          });
+        case '/api/contacts/login-page':
+          return new Response('<html><body>Login</body></html>', {
+            headers: { 'Content-Type': 'text/html' },
+          });
+        case '/oauth/v2/token':
+          return Response.json(
+            { error: 'invalid_grant', error_description: 'The refresh token is invalid.' },
+            { status: 400 }
+          );
+        default:
+          return Response.json({}, { status: 401 });
+      }
+    },
+  });
+
+  afterAll(() => server.stop(true));
+
+  const config: MauticConfig = {
+    baseUrl: `http://localhost:${server.port}`,
+    authMethod: 'bearer',
+    accessToken: 'test_token',
+    retry: { maxAttempts: 1 },
+  };
+  const client = new MauticClient(config);
+
+  const catchError = async (promise: Promise<unknown>): Promise<any> => {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected promise to reject');
+  };
+
+  test('should throw MauticNotFoundError with request context', async () => {
+    const error = await catchError(client.get('/contacts/404'));
+
+    expect(error).toBeInstanceOf(MauticNotFoundError);
+    expect(error).toBeInstanceOf(MauticApiError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.method).toBe('GET');
+    expect(error.endpoint).toBe('/contacts/404');
+    expect(error.status).toBe(404);
+    expect(error.message).toContain('Item was not found.');
+    expect(error.stack).toBeDefined();
+  });
+
+  test('should expose field errors on MauticValidationError', async () => {
+    const error = await catchError(client.post('/contacts/new', { email: 'nope' }));
+
+    expect(error).toBeInstanceOf(MauticValidationError);
+    expect(error.fieldErrors).toEqual({ email: ['A valid email is required.'] });
+  });
+
+  test('should parse Retry-After on MauticRateLimitError', async () => {
+    const error = await catchError(client.get('/contacts/limited'));
+
+    expect(error).toBeInstanceOf(MauticRateLimitError);
+    expect(error.retryAfterMs).toBe(30000);
+  });
+
+  test('should not crash on HTML error pages', async () => {
+    const error = await catchError(client.get('/contacts/html'));
+
+    expect(error).toBeInstanceOf(MauticApiError);
+    expect(error.status).toBe(500);
+    expect(error.body).toContain('Internal Server Error');
+  });
+
+  test('should reject non-JSON success responses', async () => {
+    const error = await catchError(client.get('/contacts/login-page'));
+
+    expect(error).toBeInstanceOf(MauticApiError);
+    expect(error.message).toContain('non-JSON');
+  });
+
+  test('should throw MauticAuthError on 401', async () => {
+    const error = await catchError(client.get('/contacts'));
+    expect(error).toBeInstanceOf(MauticAuthError);
+  });
+
+  test('should throw MauticAuthError from the OAuth2 token endpoint', async () => {
+    const auth = new MauticAuth({ ...config, clientId: 'id', clientSecret: 'secret' });
+    const error = await catchError(auth.refreshAccessToken('expired'));
+
+    expect(error).toBeInstanceOf(MauticAuthError);
+    expect(error.status).toBe(400);
+    expect(error.message).toContain('The refresh token is invalid.');
+  });
+
+  test('should wrap connection failures in MauticNetworkError', async () => {
+    const offline = new MauticClient({ ...config, baseUrl: 'http://127.0.0.1:1' });
+    const error = await catchError(offline.get('/contacts'));
+
+    expect(error).toBeInstanceOf(MauticNetworkError);
+    expect(error).toBeInstanceOf(MauticError);
+    expect(error.cause).toBeDefined();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for the forms and landing pages API modules
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticForms } from '../src/api/forms';
+import { MauticPages } from '../src/api/pages';
+
+interface ContestApplication {
+  startup_name: string;
+  email: string;
+  stage: string;
+}
+
+const submissions = [1, 2, 3, 4, 5].map(id => ({
+  id,
+  dateSubmitted: `2025-02-0${id} 09:00:00`,
+  form: { id: 9, name: 'Pitch Contest', alias: 'pitch_contest' },
+  lead: { id: 100 + id, fields: { core: {} } },
+  results: { startup_name: `Startup ${id}`, email: `founder${id}@startup.example`, stage: 'seed' },
+}));
+
+describe('MauticForms and MauticPages', () => {
+  const requests: Array<{ method: string; path: string; search: URLSearchParams; body: any }> = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const text = await request.text();
+      requests.push({
+        method: request.method,
+        path: url.pathname,
+        search: url.searchParams,
+        body: text ? JSON.parse(text) : undefined,
+      });
+
+      if (url.pathname === '/api/forms/9/submissions') {
+        const start = Number(url.searchParams.get('start') || 0);
+        const limit = Number(url.searchParams.get('limit') || 30);
+        return Response.json({ total: submissions.length, submissions: submissions.slice(start, start + limit) });
+      }
+      if (url.pathname === '/api/forms/9/submissions/contact/102') {
+        return Response.json({ total: 1, submissions: [submissions[1]] });
+      }
+      if (url.pathname === '/api/forms/new') {
+        return Response.json({ form: { id: 9, ...JSON.parse(text) } });
+      }
+      if (url.pathname === '/api/pages/4/edit') {
+        return Response.json({ page: { id: 4, title: 'RSVP', ...JSON.parse(text) } });
+      }
+
+      return Response.json({}, { status: 404 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const client = new MauticClient({
+    baseUrl: `http://localhost:${server.port}`,
+    authMethod: 'bearer',
+    accessToken: 'test_token',
+  });
+  const forms = new MauticForms(client);
+  const pages = new MauticPages(client);
+
+  test('should create a form with fields and actions', async () => {
+    const form = await forms.create({
+      name: 'Pitch Contest',
+      formType: 'standalone',
+      fields: [
+        { label: 'Startup name', alias: 'startup_name', type: 'text', isRequired: true },
+        { label: 'Email', alias: 'email', type: 'email', leadField: 'email', isRequired: true },
+      ],
+      actions: [{ name: 'Tag applicant', type: 'lead.changetags', properties: { add_tags: ['pitch-contest'] } }],
+    });
+
+    expect(form.id).toBe(9);
+    expect(requests[0].body.fields).toHaveLength(2);
+  });
+
+  test('should page through typed submissions', async () => {
+    const applicants = await forms.listAllSubmissions<ContestApplication>(9, { limit: 2 });
+
+    expect(applicants.map(s => s.results.startup_name)).toEqual([
+      'Startup 1',
+      'Startup 2',
+      'Startup 3',
+      'Startup 4',
+      'Startup 5',
+    ]);
+    expect(requests.map(r => r.search.get('start'))).toEqual(['0', '2', '4']);
+  });
+
+  test('should fetch submissions for a contact', async () => {
+    const { total, submissions: mine } = await forms.getContactSubmissions<ContestApplication>(9, 102);
+    expect(total).toBe(1);
+    expect(mine[0].results.email).toBe('founder2@startup.example');
+  });
+
+  test('should publish and unpublish pages', async () => {
+    const page = await pages.publish(4, { publishUp: '2025-03-01 00:00:00' });
+    expect(page.isPublished).toBe(true);
+    expect(requests[0]).toMatchObject({
+      method: 'PATCH',
+      body: { isPublished: true, publishUp: '2025-03-01 00:00:00' },
+    });
+
+    expect((await pages.unpublish(4)).isPublished).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for locale fallback chains and locale-aware formatting
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { formatDate, formatList, formatTime, localeFallbacks } from '../src/email-composer/locale';
+import { VariableSubstitution } from '../src/email-composer/variable-substitution';
+
+describe('locale helpers', () => {
+  test('should build fallback chains ending in the default locale', () => {
+    expect(localeFallbacks('de-at')).toEqual(['de-AT', 'de', 'en']);
+    expect(localeFallbacks('en_GB')).toEqual(['en-GB', 'en']);
+    expect(localeFallbacks()).toEqual(['en']);
+    expect(() => localeFallbacks('not a locale')).toThrow('Invalid locale: "not a locale"');
+  });
+
+  test('should format dates, times and lists per locale', () => {
+    expect(formatDate('2024-06-15', 'long', 'de')).toBe('15. Juni 2024');
+    expect(formatDate('June 15, 2024', 'long', 'de-AT')).toBe('15. Juni 2024');
+    expect(formatDate('to be announced', 'long', 'de')).toBe('to be announced');
+
+    expect(formatTime('9:00 AM - 6:00 PM', 'de')).toBe('09:00 - 18:00');
+    expect(formatTime('14:30 Uhr', 'en')).toBe('2:30 PM Uhr');
+    expect(formatTime('Room 12:99', 'de')).toBe('Room 12:99');
+
+    expect(formatList(['a', 'b', 'c'], 'de')).toBe('a, b und c');
+    expect(new VariableSubstitution().substitute('{{sectors | list}}', { sectors: ['A', 'B'] }, { locale: 'de' })).toBe(
+      'A und B'
+    );
+  });
+});
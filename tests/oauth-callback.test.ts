@@ -0,0 +1,132 @@
+/**
+ * Tests for the OAuth2 login flow helpers
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createHash } from 'crypto';
+import { MauticAuth } from '../src/api/auth';
+import { OAuthCallbackServer } from '../src/api/oauth-callback-server';
+import type { MauticConfig } from '../src/types/mautic';
+
+const waitForPort = async (server: OAuthCallbackServer): Promise<number> => {
+  while (!server.getPort()) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+  return server.getPort()!;
+};
+
+describe('PKCE', () => {
+  const config: MauticConfig = {
+    baseUrl: 'https://mautic.example.com',
+    clientId: 'test_client_id',
+    clientSecret: 'test_client_secret',
+    callbackUrl: 'http://localhost:3000/callback',
+  };
+  const auth = new MauticAuth(config);
+
+  test('should derive the S256 challenge from the verifier', () => {
+    const { codeVerifier, codeChallenge } = auth.generatePkceChallenge();
+    const expected = createHash('sha256').update(codeVerifier).digest('base64url');
+
+    expect(codeVerifier.length).toBeGreaterThanOrEqual(43);
+    expect(codeChallenge).toBe(expected);
+  });
+
+  test('should include the challenge in the authorization URL', () => {
+    const url = new URL(auth.getAuthorizationUrl('state-1', 'challenge-1'));
+
+    expect(url.searchParams.get('state')).toBe('state-1');
+    expect(url.searchParams.get('code_challenge')).toBe('challenge-1');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+  });
+
+  test('should generate unpredictable state values', () => {
+    expect(auth.generateState()).not.toBe(auth.generateState());
+  });
+});
+
+describe('OAuthCallbackServer', () => {
+  const createServer = (timeoutMs = 2000) =>
+    new OAuthCallbackServer({
+      callbackUrl: 'http://localhost:3000/callback',
+      state: 'expected-state',
+      port: 0,
+      timeoutMs,
+    });
+
+  test('should resolve with the code when the state matches', async () => {
+    const server = createServer();
+    const codePromise = server.waitForCode();
+    const port = await waitForPort(server);
+
+    const response = await fetch(
+      `http://localhost:${port}/callback?code=abc&state=expected-state`
+    );
+
+    expect(response.status).toBe(200);
+    expect(await codePromise).toBe('abc');
+  });
+
+  test('should ignore callbacks with a forged state', async () => {
+    const server = createServer();
+    const codePromise = server.waitForCode();
+    const port = await waitForPort(server);
+
+    const forged = await fetch(`http://localhost:${port}/callback?code=evil&state=wrong`);
+    expect(forged.status).toBe(400);
+
+    await fetch(`http://localhost:${port}/callback?code=good&state=expected-state`);
+    expect(await codePromise).toBe('good');
+  });
+
+  test('should reject when the user denies access', async () => {
+    const server = createServer();
+    const codePromise = server.waitForCode();
+    codePromise.catch(() => {});
+    const port = await waitForPort(server);
+
+    await fetch(`http://localhost:${port}/callback?error=access_denied&state=expected-state`);
+    await expect(codePromise).rejects.toThrow('access_denied');
+  });
+
+  test('should time out when no callback arrives', async () => {
+    const server = createServer(20);
+    await expect(server.waitForCode()).rejects.toThrow('Timed out');
+  });
+  test('should reject callback URLs it cannot serve', () => {
+    for (const callbackUrl of ['https://localhost/callback', 'https://localhost:8443/callback']) {
+      expect(() => new OAuthCallbackServer({ callbackUrl, state: 'expected-state' })).toThrow(
+        'must use http: (the local callback listener does not serve TLS)'
+      );
+    }
+  });
+
+  test('should use port 80 when the callback URL has no port', async () => {
+    const server = new OAuthCallbackServer({ callbackUrl: 'http://localhost/callback', state: 'expected-state' });
+
+    // Binding port 80 needs privileges, so either outcome must name the port
+    try {
+      await server.start();
+      expect(server.getPort()).toBe(80);
+    } catch (error) {
+      expect((error as Error).message).toStartWith('Cannot listen on localhost:80 for the OAuth2 callback');
+    } finally {
+      server.close();
+    }
+  });
+
+  test('should fail to start before waiting when the port is taken', async () => {
+    const taken = createServer();
+    await taken.start();
+    const port = taken.getPort()!;
+
+    const server = new OAuthCallbackServer({
+      callbackUrl: `http://localhost:${port}/callback`,
+      state: 'expected-state',
+    });
+
+    await expect(server.start()).rejects.toThrow(`Cannot listen on localhost:${port} for the OAuth2 callback`);
+    await expect(server.waitForCode()).rejects.toThrow('Cannot listen');
+    taken.close();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for pagination helpers
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { paginate, collect, toOrderedArray } from '../src/api/pagination';
+import type { Page } from '../src/types/mautic';
+
+const items = Array.from({ length: 7 }, (_, i) => ({ id: i + 1 }));
+
+const createFetcher = () => {
+  const calls: Array<[number, number]> = [];
+  const fetchPage = async (start: number, limit: number): Promise<Page<{ id: number }>> => {
+    calls.push([start, limit]);
+    return { total: items.length, items: items.slice(start, start + limit) };
+  };
+  return { calls, fetchPage };
+};
+
+describe('paginate', () => {
+  test('should walk all pages and stop at total', async () => {
+    const { calls, fetchPage } = createFetcher();
+    const result = await collect(paginate(fetchPage, { pageSize: 3 }));
+
+    expect(result.map(i => i.id)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(calls).toEqual([
+      [0, 3],
+      [3, 3],
+      [6, 3],
+    ]);
+  });
+
+  test('should honour the start offset', async () => {
+    const { fetchPage } = createFetcher();
+    const result = await collect(paginate(fetchPage, { pageSize: 5, start: 4 }));
+
+    expect(result.map(i => i.id)).toEqual([5, 6, 7]);
+  });
+
+  test('should keep going when the server caps the page size', async () => {
+    const calls: number[] = [];
+    const capped = async (start: number): Promise<Page<{ id: number }>> => {
+      calls.push(start);
+      return { total: items.length, items: items.slice(start, start + 2) };
+    };
+
+    const result = await collect(paginate(capped, { pageSize: 100 }));
+    expect(result).toHaveLength(7);
+    expect(calls).toEqual([0, 2, 4, 6]);
+  });
+
+  test('should prefetch the next page before the current one is consumed', async () => {
+    const { calls, fetchPage } = createFetcher();
+    const iterator = paginate(fetchPage, { pageSize: 3, prefetch: true });
+
+    await iterator.next();
+    expect(calls).toHaveLength(2);
+    await iterator.return(undefined);
+  });
+
+  test('should not fetch further pages when the consumer stops early', async () => {
+    const { calls, fetchPage } = createFetcher();
+
+    for await (const item of paginate(fetchPage, { pageSize: 3 })) {
+      if (item.id === 2) break;
+    }
+
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('toOrderedArray', () => {
+  test('should convert id-keyed records to arrays', () => {
+    expect(toOrderedArray({ 2: { id: 2 }, 1: { id: 1 } })).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(toOrderedArray(undefined)).toEqual([]);
+  });
+
+  test('should restore the requested sort order', () => {
+    const record = {
+      1: { id: 1, fields: { all: { lastname: 'Mueller' } } },
+      2: { id: 2, fields: { all: { lastname: 'Dubois' } } },
+      3: { id: 3, fields: { all: { lastname: 'Weber' } } },
+    };
+
+    const sorted = toOrderedArray(record, [{ col: 'lastname', dir: 'desc' }]);
+    expect(sorted.map(c => c.id)).toEqual([3, 1, 2]);
+  });
+});
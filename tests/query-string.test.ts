@@ -0,0 +1,66 @@
+/**
+ * Tests for query string serialization and the where filter builder
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { serializeQuery } from '../src/api/query-string';
+import { Where } from '../src/api/filters';
+
+describe('serializeQuery', () => {
+  test('should serialize flat params', () => {
+    expect(serializeQuery({ start: 0, limit: 30, search: 'tag:vc' })).toBe(
+      'start=0&limit=30&search=tag%3Avc'
+    );
+  });
+
+  test('should use bracketed keys for arrays of objects', () => {
+    const query = serializeQuery({
+      where: [{ col: 'email', expr: 'eq', val: 'a@b.de' }],
+      order: [{ col: 'lastname', dir: 'asc' }],
+    });
+
+    expect(query).toBe(
+      'where[0][col]=email&where[0][expr]=eq&where[0][val]=a%40b.de' +
+        '&order[0][col]=lastname&order[0][dir]=asc'
+    );
+  });
+
+  test('should send booleans as 1/0 and skip empty values', () => {
+    expect(serializeQuery({ published: true, minimal: false, search: undefined, x: null })).toBe(
+      'published=1&minimal=0'
+    );
+  });
+
+  test('should format dates the way Mautic stores them', () => {
+    expect(serializeQuery({ since: new Date(Date.UTC(2024, 5, 15, 9, 30, 0)) })).toBe(
+      'since=2024-06-15%2009%3A30%3A00'
+    );
+  });
+});
+
+describe('Where', () => {
+  test('should nest andX/orX expressions', () => {
+    const where = [
+      Where.in('company', ['BioTech Ventures', 'BioInvest']),
+      Where.orX(Where.isNull('owner_id'), Where.gte('points', 10)),
+    ];
+
+    expect(where).toEqual([
+      { col: 'company', expr: 'in', val: ['BioTech Ventures', 'BioInvest'] },
+      {
+        expr: 'orX',
+        val: [
+          { col: 'owner_id', expr: 'isNull' },
+          { col: 'points', expr: 'gte', val: 10 },
+        ],
+      },
+    ]);
+
+    expect(decodeURIComponent(serializeQuery({ where }))).toBe(
+      'where[0][col]=company&where[0][expr]=in&where[0][val][0]=BioTech Ventures' +
+        '&where[0][val][1]=BioInvest&where[1][expr]=orX' +
+        '&where[1][val][0][col]=owner_id&where[1][val][0][expr]=isNull' +
+        '&where[1][val][1][col]=points&where[1][val][1][expr]=gte&where[1][val][1][val]=10'
+    );
+  });
+});
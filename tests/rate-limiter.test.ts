@@ -0,0 +1,76 @@
+/**
+ * Tests for the client-side rate limiter
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { MauticError } from '../src/api/errors';
+import { RateLimiter } from '../src/api/rate-limiter';
+import type { QueueStats } from '../src/types/mautic';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('RateLimiter', () => {
+  test('should never exceed max concurrency', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: Infinity, maxConcurrency: 2 });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.schedule(async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await delay(5);
+          running--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+    expect(limiter.getStats()).toEqual({ queued: 0, inFlight: 0, completed: 6 });
+  });
+
+  test('should throttle to the configured rate after the burst', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 50, burst: 2, maxConcurrency: 10 });
+    const started = Date.now();
+
+    await Promise.all(Array.from({ length: 5 }, () => limiter.schedule(async () => {})));
+
+    // 2 immediately from the burst, the remaining 3 at 20ms intervals
+    expect(Date.now() - started).toBeGreaterThanOrEqual(50);
+  });
+
+  test('should report queue depth while tasks are waiting', async () => {
+    const snapshots: QueueStats[] = [];
+    const limiter = new RateLimiter({
+      requestsPerSecond: Infinity,
+      maxConcurrency: 1,
+      onQueueChange: stats => snapshots.push(stats),
+    });
+
+    await Promise.all(
+      Array.from({ length: 3 }, () => limiter.schedule(() => delay(1)))
+    );
+
+    expect(Math.max(...snapshots.map(s => s.queued))).toBe(2);
+    expect(snapshots[snapshots.length - 1]).toEqual({ queued: 0, inFlight: 0, completed: 3 });
+  });
+
+  test('should release the slot when a task fails', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: Infinity, maxConcurrency: 1 });
+
+    await expect(
+      limiter.schedule(async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(await limiter.schedule(async () => 'ok')).toBe('ok');
+  });
+  test('should reject rates that never refill', () => {
+    for (const requestsPerSecond of [0, -5, NaN]) {
+      expect(() => new RateLimiter({ requestsPerSecond })).toThrow(MauticError);
+    }
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow('requestsPerSecond must be greater than 0');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for request retries against a local fake Mautic server
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { RetryPolicy } from '../src/api/retry';
+import type { MauticConfig } from '../src/types/mautic';
+
+describe('RetryPolicy', () => {
+  const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: 'none' });
+
+  test('should grow backoff exponentially up to the max delay', () => {
+    expect(policy.getBackoffDelay(1)).toBe(100);
+    expect(policy.getBackoffDelay(2)).toBe(200);
+    expect(policy.getBackoffDelay(3)).toBe(400);
+    expect(policy.getBackoffDelay(10)).toBe(1000);
+  });
+
+  test('should parse Retry-After seconds and HTTP dates', () => {
+    expect(policy.parseRetryAfter('2')).toBe(2000);
+    expect(policy.parseRetryAfter(null)).toBeUndefined();
+
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const delay = policy.parseRetryAfter(date)!;
+    expect(delay).toBeGreaterThan(3000);
+    expect(delay).toBeLessThanOrEqual(5000);
+  });
+
+  test('should not replay non-idempotent requests on server errors', () => {
+    expect(policy.shouldRetryStatus('GET', 503, 1)).toBe(true);
+    expect(policy.shouldRetryStatus('POST', 503, 1)).toBe(false);
+    expect(policy.shouldRetryStatus('POST', 503, 1, true)).toBe(true);
+    expect(policy.shouldRetryStatus('POST', 429, 1)).toBe(true);
+    expect(policy.shouldRetryStatus('GET', 404, 1)).toBe(false);
+    expect(policy.shouldRetryStatus('GET', 503, 3)).toBe(false);
+  });
+});
+
+describe('MauticClient retries', () => {
+  const responses: Array<{ status: number; headers?: Record<string, string> }> = [];
+  const hits: string[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      hits.push(`${request.method} ${new URL(request.url).pathname}`);
+      const next = responses.shift() || { status: 200 };
+      const body = next.status < 400 ? { contact: { id: 1 } } : { errors: [{ message: 'busy' }] };
+      return Response.json(body, { status: next.status, headers: next.headers });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+
+  const config: MauticConfig = {
+    baseUrl: `http://localhost:${server.port}`,
+    clientId: 'test_client_id',
+    clientSecret: 'test_client_secret',
+    callbackUrl: 'http://localhost:3000/callback',
+    accessToken: 'test_token',
+    tokenExpiresAt: Date.now() + 3600000,
+    retry: { baseDelayMs: 1, maxAttempts: 3 },
+  };
+
+  const reset = () => {
+    responses.length = 0;
+    hits.length = 0;
+  };
+
+  test('should retry GET requests on 503', async () => {
+    reset();
+    responses.push({ status: 503 }, { status: 502 });
+
+    const client = new MauticClient(config);
+    const response = await client.get<any>('/contacts/1');
+
+    expect(response.contact).toEqual({ id: 1 });
+    expect(hits).toHaveLength(3);
+  });
+
+  test('should give up after max attempts', async () => {
+    reset();
+    responses.push({ status: 503 }, { status: 503 }, { status: 503 });
+
+    const client = new MauticClient(config);
+    await expect(client.get<any>('/contacts/1')).rejects.toMatchObject({ status: 503 });
+    expect(hits).toHaveLength(3);
+  });
+
+  test('should not replay POST /contacts/new on 502', async () => {
+    reset();
+    responses.push({ status: 502 });
+
+    const client = new MauticClient(config);
+    await expect(client.post<any>('/contacts/new', { email: 'a@b.de' })).rejects.toMatchObject({
+      status: 502,
+    });
+    expect(hits).toEqual(['POST /api/contacts/new']);
+  });
+
+  test('should honour Retry-After on 429 for POST requests', async () => {
+    reset();
+    responses.push({ status: 429, headers: { 'Retry-After': '0' } });
+
+    const client = new MauticClient(config);
+    const response = await client.post<any>('/contacts/new', { email: 'a@b.de' });
+
+    expect(response.contact).toEqual({ id: 1 });
+    expect(hits).toHaveLength(2);
+  });
+
+  test('should not wait longer than maxRetryAfterMs', async () => {
+    reset();
+    responses.push({ status: 429, headers: { 'Retry-After': '3600' } });
+
+    const client = new MauticClient({ ...config, retry: { ...config.retry, maxRetryAfterMs: 1000 } });
+    await expect(client.get<any>('/contacts/1')).rejects.toMatchObject({ status: 429 });
+    expect(hits).toHaveLength(1);
+  });
+});
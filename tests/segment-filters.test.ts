@@ -0,0 +1,191 @@
+/**
+ * Tests for the segment filter builder and validation before segment writes
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticSegments } from '../src/api/segments';
+import { MauticTags } from '../src/api/tags';
+import { MauticSegmentFilterError } from '../src/api/errors';
+import { SegmentFilters, validateSegmentFilters } from '../src/api/segment-filters';
+import type { MauticContactField, SegmentFilter } from '../src/types/mautic';
+
+const field = (id: number, alias: string, type: string, object: 'lead' | 'company' = 'lead') =>
+  ({ id, alias, type, object, label: alias, group: 'core' }) as MauticContactField;
+
+const CONTACT_FIELDS = [
+  field(1, 'email', 'email'),
+  field(2, 'audience_type', 'select'),
+  field(3, 'founded_year', 'number'),
+  field(4, 'last_summit', 'date'),
+];
+
+describe('SegmentFilters', () => {
+  test('should build Mautic filter payloads with the value in properties', () => {
+    expect(SegmentFilters.tags([3, 7])).toEqual({
+      glue: 'and',
+      field: 'tags',
+      object: 'lead',
+      type: 'tags',
+      operator: 'in',
+      properties: { filter: [3, 7] },
+    });
+    expect(SegmentFilters.or(SegmentFilters.emailRead([12]))).toMatchObject({
+      glue: 'or',
+      field: 'lead_email_received',
+      object: 'behaviors',
+    });
+    expect(SegmentFilters.date('date_added', 'gte', new Date('2025-01-15T08:30:00Z'))).toMatchObject({
+      type: 'datetime',
+      properties: { filter: '2025-01-15 08:30:00' },
+    });
+    expect(SegmentFilters.date('last_summit', 'lt', new Date('2025-01-15T08:30:00Z')).properties).toEqual({
+      filter: '2025-01-15',
+    });
+  });
+
+  test('should accept valid filters', () => {
+    const filters = [
+      SegmentFilters.tags([3]),
+      SegmentFilters.field('audience_type', 'in', ['vcs', 'startups'], { type: 'select' }),
+      SegmentFilters.field('email', 'endsWith', '@biotech-ventures.de'),
+      SegmentFilters.points('between', [10, 50]),
+      SegmentFilters.date('last_summit', 'lt', '-1 year'),
+      SegmentFilters.inSegments([4]),
+      SegmentFilters.unsubscribed(false),
+    ];
+    expect(validateSegmentFilters(filters, CONTACT_FIELDS)).toEqual([]);
+  });
+
+  test('should report unknown fields, operators and malformed values', () => {
+    const legacyTags: SegmentFilter = {
+      glue: 'and',
+      field: 'tags',
+      object: 'lead',
+      type: 'tags',
+      operator: 'in',
+      properties: {},
+      filter: 'vc,investor,biotech',
+    };
+
+    expect(
+      validateSegmentFilters(
+        [
+          legacyTags,
+          SegmentFilters.field('linkedin_url', '=', 'x'),
+          SegmentFilters.field('founded_year', 'like', '20%', { type: 'number' }),
+          SegmentFilters.field('founded_year', 'gt', 'recent', { type: 'number' }),
+          SegmentFilters.field('audience_type', '=', 'vcs'),
+        ],
+        CONTACT_FIELDS
+      )
+    ).toEqual([
+      'Filter 1 ("tags") needs a non-empty list of values, got "vc,investor,biotech"',
+      'Filter 2 ("linkedin_url") uses unknown lead field',
+      'Filter 3 ("founded_year") operator "like" is not valid for number fields ' +
+        '(use one of =, !=, gt, gte, lt, lte, empty, !empty, between, !between)',
+      'Filter 4 ("founded_year") needs a number, got "recent"',
+      'Filter 5 ("audience_type") has type "text" but the field is "select"',
+    ]);
+
+    expect(
+      validateSegmentFilters([SegmentFilters.field('tags', 'in', ['vc'], { type: 'tags' })], [])
+    ).toEqual(['Filter 1 ("tags") expects tag IDs, got ["vc"]']);
+  });
+});
+
+describe('MauticSegments filter validation', () => {
+  const requests: string[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      requests.push(`${request.method} ${url.pathname}`);
+
+      if (url.pathname === '/api/fields/contact') {
+        const start = Number(url.searchParams.get('start') || 0);
+        const limit = Number(url.searchParams.get('limit') || 30);
+        const page = CONTACT_FIELDS.slice(start, start + limit);
+        return Response.json({
+          total: CONTACT_FIELDS.length,
+          fields: Object.fromEntries(page.map(f => [f.id, f])),
+        });
+      }
+      if (url.pathname === '/api/fields/company') {
+        return Response.json({ total: 1, fields: { 20: field(20, 'companyindustry', 'select', 'company') } });
+      }
+      if (url.pathname === '/api/segments/new') {
+        return Response.json({ list: { id: 9, ...(await request.json()) } });
+      }
+      if (url.pathname === '/api/tags') {
+        return Response.json({
+          total: 2,
+          tags: { 3: { id: 3, tag: 'vc' }, 5: { id: 5, tag: 'Biotech' } },
+        });
+      }
+      if (url.pathname === '/api/tags/new') {
+        const { tag } = await request.json();
+        return Response.json({ tag: { id: 11, tag } });
+      }
+      return Response.json({}, { status: 404 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const client = new MauticClient({
+    baseUrl: `http://localhost:${server.port}`,
+    authMethod: 'bearer',
+    accessToken: 'test_token',
+    retry: { maxAttempts: 1 },
+  });
+  const segments = new MauticSegments(client);
+  const tags = new MauticTags(client);
+
+  test('should reject invalid filters before creating the segment', async () => {
+    const error = await segments
+      .create({
+        name: 'Biotech VCs',
+        filters: [SegmentFilters.tags([3]), SegmentFilters.field('audience_type', 'like', 'vc%', { type: 'select' })],
+      })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(MauticSegmentFilterError);
+    expect(error.problems).toHaveLength(1);
+    expect(error.problems[0]).toContain('operator "like" is not valid for select fields');
+    expect(requests).toEqual(['GET /api/fields/contact']);
+  });
+
+  test('should create valid segments and reuse the fetched field definitions', async () => {
+    const segment = await segments.create({
+      name: 'Biotech VCs',
+      filters: [
+        SegmentFilters.field('audience_type', '=', 'vcs', { type: 'select' }),
+        SegmentFilters.field('companyindustry', 'in', ['biotech'], { object: 'company', type: 'select' }),
+      ],
+    });
+
+    expect(segment.id).toBe(9);
+    expect(requests).toEqual(['GET /api/fields/company', 'POST /api/segments/new']);
+  });
+
+  test('should skip validation on request', async () => {
+    await segments.create(
+      { name: 'Raw', filters: [SegmentFilters.field('unknown', '=', 'x')] },
+      { validate: false }
+    );
+    expect(requests).toEqual(['POST /api/segments/new']);
+  });
+
+  test('should resolve tag names to IDs', async () => {
+    expect(await tags.resolveIds(['biotech', 'VC'])).toEqual([5, 3]);
+    await expect(tags.resolveIds(['investor'])).rejects.toThrow('Unknown tags: investor');
+
+    expect(await tags.resolveIds(['vc', 'investor'], { create: true })).toEqual([3, 11]);
+    expect(requests.filter(r => r.startsWith('POST'))).toEqual(['POST /api/tags/new']);
+  });
+});
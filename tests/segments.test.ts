@@ -0,0 +1,152 @@
+/**
+ * Tests for segment membership listing, bulk changes and diffing
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { MauticSegments } from '../src/api/segments';
+
+const CONTACTS: Record<number, string> = {
+  101: 'a.mueller@biotech-ventures.de',
+  102: 'j.weber@bioinvest.com',
+  103: 'old.partner@example.com',
+  104: 'S.Chen@Biotech-Uni.edu',
+  105: 'm.rodriguez@genomed-inst.org',
+};
+
+const toContact = (id: number) => ({ id, fields: { all: { id, email: CONTACTS[id] } } });
+
+describe('MauticSegments membership', () => {
+  const members = new Set<number>([101, 102, 103]);
+  const requests: Array<{ method: string; path: string; body: any }> = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const text = await request.text();
+      const body = text ? JSON.parse(text) : undefined;
+      requests.push({ method: request.method, path: url.pathname, body });
+
+      if (url.pathname === '/api/segments/3') {
+        return Response.json({ list: { id: 3, name: 'Biotech VCs', alias: 'biotech-vcs' } });
+      }
+
+      if (url.pathname === '/api/contacts') {
+        const search = url.searchParams.get('search');
+        if (search === 'segment:biotech-vcs') {
+          const start = Number(url.searchParams.get('start') || 0);
+          const limit = Number(url.searchParams.get('limit') || 30);
+          const ids = [...members].sort();
+          return Response.json({
+            total: String(ids.length),
+            contacts: Object.fromEntries(ids.slice(start, start + limit).map(id => [id, toContact(id)])),
+          });
+        }
+
+        const wanted = [...url.searchParams.entries()]
+          .filter(([key]) => /^where\[0\]\[val\]\[\d+\]$/.test(key))
+          .map(([, value]) => value.toLowerCase());
+        const found = Object.keys(CONTACTS)
+          .map(Number)
+          .filter(id => wanted.includes(CONTACTS[id].toLowerCase()));
+        return Response.json({
+          total: found.length,
+          contacts: Object.fromEntries(found.map(id => [id, toContact(id)])),
+        });
+      }
+
+      if (url.pathname === '/api/segments/3/contacts/add') {
+        const details: Record<string, { success: boolean }> = {};
+        for (const id of body.ids as number[]) {
+          details[id] = { success: id !== 999 };
+          if (id !== 999) members.add(id);
+        }
+        return Response.json({ details });
+      }
+
+      const removal = url.pathname.match(/^\/api\/segments\/3\/contact\/(\d+)\/remove$/);
+      if (removal) {
+        members.delete(Number(removal[1]));
+        return Response.json({ success: 1 });
+      }
+
+      return Response.json({}, { status: 404 });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const segments = new MauticSegments(
+    new MauticClient({
+      baseUrl: `http://localhost:${server.port}`,
+      authMethod: 'bearer',
+      accessToken: 'test_token',
+      retry: { maxAttempts: 1 },
+    })
+  );
+
+  test('should count and iterate members by segment alias', async () => {
+    expect(await segments.countContacts(3)).toBe(3);
+
+    const ids: number[] = [];
+    for await (const contact of segments.iterateContacts(3, { limit: 2 })) {
+      ids.push(Number(contact.id));
+    }
+    expect(ids).toEqual([101, 102, 103]);
+    // The alias is looked up once per segment
+    expect(requests.filter(r => r.path === '/api/segments/3')).toHaveLength(1);
+  });
+
+  test('should add contacts in chunks through the batch endpoint', async () => {
+    const progress: number[] = [];
+    const result = await segments.addContacts(3, [104, 999, 105], {
+      chunkSize: 2,
+      onProgress: processed => progress.push(processed),
+    });
+
+    expect(result.succeeded).toBe(2);
+    expect(result.results.find(r => r.contactId === 999)).toMatchObject({ success: false });
+    expect(requests.map(r => r.body?.ids)).toEqual([[104, 999], [105]]);
+    expect(progress).toEqual([2, 3]);
+
+    const removed = await segments.removeContacts(3, [104, 105]);
+    expect(removed.succeeded).toBe(2);
+    expect([...members].sort()).toEqual([101, 102, 103]);
+  });
+
+  test('should diff members against desired emails and IDs', async () => {
+    const diff = await segments.diffContacts(3, [
+      'A.Mueller@biotech-ventures.de',
+      's.chen@biotech-uni.edu',
+      'nobody@example.com',
+      105,
+    ]);
+
+    expect(diff).toEqual({
+      add: [105, 104],
+      remove: [102, 103],
+      unchanged: [101],
+      unknown: ['nobody@example.com'],
+    });
+    expect([...members].sort()).toEqual([101, 102, 103]);
+  });
+
+  test('should apply a diff, optionally keeping extra members', async () => {
+    const diff = await segments.diffContacts(3, ['s.chen@biotech-uni.edu', 101], {
+      apply: true,
+      remove: false,
+    });
+
+    expect(diff.remove).toEqual([]);
+    expect(diff.applied?.added.succeeded).toBe(1);
+    expect([...members].sort()).toEqual([101, 102, 103, 104]);
+
+    const synced = await segments.diffContacts(3, [101, 104], { apply: true });
+    expect(synced.applied?.removed.results.map(r => r.contactId)).toEqual([102, 103]);
+    expect([...members].sort()).toEqual([101, 104]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for token persistence and single-flight refresh
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test';
+import { MauticClient } from '../src/api/client';
+import { FileTokenStore, MemoryTokenStore } from '../src/api/token-store';
+import type { MauticConfig, StoredTokens } from '../src/types/mautic';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('FileTokenStore', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'mautic-tokens-'));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  test('should return null when no token file exists', async () => {
+    const store = new FileTokenStore(join(dir, 'missing.json'));
+    expect(await store.load()).toBeNull();
+  });
+
+  test('should round-trip tokens with owner-only permissions', async () => {
+    const filePath = join(dir, 'nested', 'tokens.json');
+    const store = new FileTokenStore(filePath);
+    const tokens: StoredTokens = { accessToken: 'a', refreshToken: 'r', tokenExpiresAt: 123 };
+
+    await store.save(tokens);
+    expect(await store.load()).toEqual(tokens);
+    expect(statSync(filePath).mode & 0o777).toBe(0o600);
+
+    await store.clear();
+    expect(await store.load()).toBeNull();
+  });
+});
+
+describe('MauticClient token refresh', () => {
+  let tokenRequests = 0;
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname === '/oauth/v2/token') {
+        tokenRequests++;
+        const body = new URLSearchParams(await request.text());
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return Response.json({
+          access_token: `access-${tokenRequests}`,
+          refresh_token: `rotated-from-${body.get('refresh_token')}`,
+          expires_in: 3600,
+          token_type: 'bearer',
+        });
+      }
+      return Response.json({ auth: request.headers.get('Authorization') });
+    },
+  });
+
+  afterAll(() => server.stop(true));
+
+  const baseConfig: MauticConfig = {
+    baseUrl: `http://localhost:${server.port}`,
+    clientId: 'test_client_id',
+    clientSecret: 'test_client_secret',
+    callbackUrl: 'http://localhost:3000/callback',
+  };
+
+  test('should collapse concurrent refreshes into one token request', async () => {
+    tokenRequests = 0;
+    const store = new MemoryTokenStore();
+    const refreshed: StoredTokens[] = [];
+
+    const client = new MauticClient({
+      ...baseConfig,
+      refreshToken: 'original',
+      tokenStore: store,
+      onTokenRefreshed: tokens => {
+        refreshed.push(tokens);
+      },
+    });
+
+    const responses = await Promise.all([
+      client.get<any>('/contacts'),
+      client.get<any>('/emails'),
+      client.get<any>('/segments'),
+    ]);
+
+    expect(tokenRequests).toBe(1);
+    expect(responses.map(r => r.auth)).toEqual([
+      'Bearer access-1',
+      'Bearer access-1',
+      'Bearer access-1',
+    ]);
+    expect(refreshed).toHaveLength(1);
+    expect((await store.load())?.refreshToken).toBe('rotated-from-original');
+  });
+
+  test('should prefer tokens from the store on startup', async () => {
+    tokenRequests = 0;
+    const store = new MemoryTokenStore({
+      accessToken: 'stored-access',
+      refreshToken: 'stored-refresh',
+      tokenExpiresAt: Date.now() + 3600000,
+    });
+
+    const client = new MauticClient({ ...baseConfig, accessToken: 'stale', tokenStore: store });
+    const response = await client.get<any>('/contacts');
+
+    expect(response.auth).toBe('Bearer stored-access');
+    expect(tokenRequests).toBe(0);
+  });
+  test('should load from the store again after a failed load', async () => {
+    tokenRequests = 0;
+    const store = new MemoryTokenStore({
+      accessToken: 'stored-access',
+      tokenExpiresAt: Date.now() + 3600000,
+    });
+    let loads = 0;
+    const load = store.load.bind(store);
+    store.load = async () => (++loads === 1 ? Promise.reject(new Error('Store unavailable')) : load());
+
+    const client = new MauticClient({ ...baseConfig, accessToken: 'stale', tokenStore: store });
+
+    await expect(client.get<any>('/contacts')).rejects.toThrow('Store unavailable');
+    expect((await client.get<any>('/contacts')).auth).toBe('Bearer stored-access');
+    expect(loads).toBe(2);
+    expect(tokenRequests).toBe(0);
+  });
+});
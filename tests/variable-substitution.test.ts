@@ -0,0 +1,106 @@
+/**
+ * Tests for the template language in VariableSubstitution
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { TemplateError, VariableSubstitution } from '../src/email-composer/variable-substitution';
+
+const VARIABLES = {
+  first_name: 'anna',
+  title: '',
+  event: {
+    name: 'SynBio Reactor Summit',
+    date: '2024-06-15',
+    sectors: ['Synthetic Biology', 'Biotechnology', 'Bio-based Innovation'],
+  },
+  features: { pitch_contest: { benefits: ['Investor access', 'Judge feedback'] } },
+  speakers: [{ name: 'Dr. Weber' }, { name: 'Prof. Lang' }],
+};
+
+describe('VariableSubstitution', () => {
+  const substitution = new VariableSubstitution();
+  const render = (text: string, options = {}) =>
+    substitution.substitute(text, VARIABLES, { warnOnMissing: false, ...options });
+
+  test('should resolve dotted paths', () => {
+    expect(render('{{event.name}} on {{ event.date }}')).toBe('SynBio Reactor Summit on 2024-06-15');
+    expect(render('[{{event.missing.name}}]')).toBe('[]');
+  });
+
+  test('should apply defaults and filters left to right', () => {
+    expect(render('Hi {{title | default: "there"}},')).toBe('Hi there,');
+    expect(render('Hi {{nickname | default: \'friend\'}},')).toBe('Hi friend,');
+    expect(render('{{first_name | capitalize}} {{first_name | upper}}')).toBe('Anna ANNA');
+    expect(render('{{event.sectors | list}}')).toBe('Synthetic Biology, Biotechnology, and Bio-based Innovation');
+    expect(render('{{event.sectors | join: " / " | lower}}')).toBe('synthetic biology / biotechnology / bio-based innovation');
+    expect(render('{{event.date | date}} ({{event.date | date: "short"}})')).toBe('June 15, 2024 (6/15/24)');
+    expect(render('{{note | default: "<b>\\"hi\\"</b>" | escape}}')).toBe('&lt;b&gt;&quot;hi&quot;&lt;/b&gt;');
+  });
+
+  test('should render if/else and each sections', () => {
+    expect(render('Dear {{#if title}}{{title}}{{else}}{{first_name | capitalize}}{{/if}},')).toBe('Dear Anna,');
+    expect(render('{{#each features.pitch_contest.benefits}}\n- {{this}}{{/each}}')).toBe(
+      '\n- Investor access\n- Judge feedback'
+    );
+    expect(
+      render('{{#each speakers}}{{@index}}:{{this.name}}{{#if @last}}.{{else}}, {{/if}}{{/each}}')
+    ).toBe('0:Dr. Weber, 1:Prof. Lang.');
+    expect(render('{{#each talks}}{{this}}{{else}}No talks{{/each}}')).toBe('No talks');
+  });
+
+  test('should keep escaped braces literal', () => {
+    expect(render('Use \\{{first_name}} in your template')).toBe('Use {{first_name}} in your template');
+  });
+
+  test('should keep tags that are not placeholders as literal text', () => {
+    expect(render('Hi {{first-name}}, {{ }}{{first_name}}', { strict: true })).toBe('Hi {{first-name}}, {{ }}anna');
+    expect(substitution.extractPlaceholders('{{first-name}} {{title}}')).toEqual(['title']);
+    expect(substitution.invalidTags('{{#if title}}{{first-name}}{{/if}} {{ }}')).toEqual(['{{first-name}}', '{{ }}']);
+    expect(substitution.validate('Hi {{first-name}}', VARIABLES)).toEqual({
+      valid: false,
+      missing: [],
+      errors: ['Invalid placeholder {{first-name}}'],
+    });
+  });
+
+  test('should render plain objects as empty text', () => {
+    expect(render('[{{event}}] [{{features.pitch_contest}}]')).toBe('[] []');
+    expect(substitution.substitute('{{when | date}}', { when: new Date(2024, 5, 15) })).toBe('June 15, 2024');
+  });
+
+  test('should keep the missing-variable options', () => {
+    expect(render('Hi {{nickname | upper}}', { keepPlaceholders: true })).toBe('Hi {{nickname | upper}}');
+    expect(() => render('Hi {{nickname}}', { strict: true })).toThrow('Missing required variable: nickname');
+    // Defaults and sections make a variable optional
+    expect(render('{{nickname | default: "x"}}{{#if nickname}}{{nickname}}{{/if}}', { strict: true })).toBe('x');
+  });
+
+  test('should report template syntax errors', () => {
+    expect(() => render('{{#if title}}Dear')).toThrow(TemplateError);
+    expect(() => render('{{#if title}}{{/each}}')).toThrow('{{/each}} closes {{#if}}');
+    expect(() => render('{{first_name | shout}}')).toThrow('Unknown filter "shout"');
+    expect(() => render('{{#with event}}{{/with}}')).toThrow('Unknown section');
+    expect(() => render('{{event.date | date: "weekday"}}')).toThrow('Unknown date style');
+  });
+
+  test('should extract and validate placeholders in the new syntax', () => {
+    const text =
+      'Hi {{first_name | default: "there"}}, {{#if title}}{{title}} {{/if}}{{last_name}}' +
+      '{{#each features.pitch_contest.benefits}}- {{this}} at {{event.name}}{{/each}}';
+
+    expect(substitution.extractPlaceholders(text)).toEqual([
+      'first_name',
+      'title',
+      'last_name',
+      'features.pitch_contest.benefits',
+      'event.name',
+    ]);
+    expect(substitution.requiredPlaceholders(text)).toEqual(['last_name', 'event.name']);
+    expect(substitution.validate(text, VARIABLES)).toEqual({ valid: false, missing: ['last_name'], errors: [] });
+    expect(substitution.validate('{{#if x}}', VARIABLES)).toEqual({
+      valid: false,
+      missing: [],
+      errors: ['Unclosed {{#if}} section'],
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for webhook signature verification, parsing and dispatch
+ * using recorded Mautic payloads posted to a local server
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from 'bun:test';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import {
+  MauticWebhookReceiver,
+  parseWebhookPayload,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../src/webhooks/webhook-receiver';
+import type { MauticWebhookEvent } from '../src/types/webhooks';
+
+const SECRET = 'whsec_summit_2025';
+
+const loadPayload = (name: string) =>
+  fs.readFile(join(import.meta.dir, 'fixtures/webhooks', name), 'utf-8');
+
+describe('webhook signatures', () => {
+  test('should match the base64 HMAC-SHA256 Mautic sends', () => {
+    const body = '{"timestamp":"2025-03-10T09:15:03+00:00"}';
+    const signature = signWebhookPayload(body, SECRET);
+
+    expect(signature).toMatch(/^[A-Za-z0-9+/]+=*$/);
+    expect(verifyWebhookSignature(body, signature, SECRET)).toBe(true);
+    expect(verifyWebhookSignature(body + ' ', signature, SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, 'other-secret')).toBe(false);
+    expect(verifyWebhookSignature(body, undefined, SECRET)).toBe(false);
+  });
+});
+
+describe('parseWebhookPayload', () => {
+  test('should split batched entries and ignore unknown triggers', async () => {
+    const { events, ignored } = parseWebhookPayload(await loadPayload('form-submit.json'));
+
+    expect(ignored).toEqual(['mautic.some_plugin_event']);
+    expect(events).toHaveLength(1);
+    const [event] = events;
+    if (event.type !== 'mautic.form_on_submit') throw new Error('unexpected type');
+    expect(event.timestamp).toBe('2025-03-12T14:02:11+00:00');
+    expect(event.data.submission.results.startup_name).toBe('Enzymatix');
+  });
+
+  test('should map legacy lead keys to contact and fall back to the batch timestamp', async () => {
+    const { events } = parseWebhookPayload(await loadPayload('contact-changes.json'));
+    const points = events.find(e => e.type === 'mautic.lead_points_change');
+
+    if (points?.type !== 'mautic.lead_points_change') throw new Error('missing points event');
+    expect(points.data.contact.id).toBe(503);
+    expect(points.data.points.new_points).toBe(35);
+    expect(points.timestamp).toBe('2025-03-11T10:00:01+00:00');
+  });
+});
+
+describe('MauticWebhookReceiver', () => {
+  const received: MauticWebhookEvent[] = [];
+  const unsubscribed: string[] = [];
+  let failHandlers = false;
+
+  const receiver = new MauticWebhookReceiver({ secret: SECRET, path: '/webhooks/mautic' })
+    .on('mautic.lead_channel_subscription_changed', event => {
+      if (event.data.new_status === 'unsubscribed') {
+        unsubscribed.push(String(event.data.contact.fields.core.email?.value));
+      }
+    })
+    .onAny(event => {
+      if (failHandlers) throw new Error('CRM unavailable');
+      received.push(event);
+    });
+
+  const bunServer = Bun.serve({ port: 0, fetch: request => receiver.handleRequest(request) });
+  let nodeServer: Server;
+  let nodePort = 0;
+
+  afterAll(() => {
+    bunServer.stop(true);
+    nodeServer?.close();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    unsubscribed.length = 0;
+    failHandlers = false;
+  });
+
+  const post = (port: number, body: string, signature?: string, path = '/webhooks/mautic') =>
+    fetch(`http://localhost:${port}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(signature ? { 'Webhook-Signature': signature } : {}),
+      },
+      body,
+    });
+
+  test('should dispatch signed payloads to typed handlers', async () => {
+    const body = await loadPayload('contact-changes.json');
+    const response = await post(bunServer.port, body, signWebhookPayload(body, SECRET));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: 2, ignored: [] });
+    expect(unsubscribed).toEqual(['a.mueller@biotech-ventures.de']);
+    expect(received.map(e => e.type)).toEqual([
+      'mautic.lead_channel_subscription_changed',
+      'mautic.lead_points_change',
+    ]);
+  });
+
+  test('should reject unsigned and tampered payloads without dispatching', async () => {
+    const body = await loadPayload('email-open.json');
+
+    expect((await post(bunServer.port, body)).status).toBe(401);
+    const tampered = body.replace('a.mueller', 'attacker');
+    expect((await post(bunServer.port, tampered, signWebhookPayload(body, SECRET))).status).toBe(401);
+    expect(received).toEqual([]);
+  });
+
+  test('should report handler failures as 500 so Mautic marks the delivery failed', async () => {
+    failHandlers = true;
+    const body = await loadPayload('email-open.json');
+    const response = await post(bunServer.port, body, signWebhookPayload(body, SECRET));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'CRM unavailable' });
+  });
+
+  test('should only answer on the configured path', async () => {
+    const body = await loadPayload('email-open.json');
+    const response = await post(bunServer.port, body, signWebhookPayload(body, SECRET), '/other');
+    expect(response.status).toBe(404);
+  });
+
+  test('should work as node http middleware', async () => {
+    nodeServer = createServer(receiver.middleware());
+    await new Promise<void>(resolve => nodeServer.listen(0, '127.0.0.1', resolve));
+    nodePort = (nodeServer.address() as AddressInfo).port;
+
+    const body = await loadPayload('email-open.json');
+    const response = await post(nodePort, body, signWebhookPayload(body, SECRET));
+
+    expect(response.status).toBe(200);
+    expect(received).toHaveLength(2);
+    const [first] = received;
+    if (first.type !== 'mautic.email_on_open') throw new Error('unexpected type');
+    expect(first.data.stat.emailAddress).toBe('a.mueller@biotech-ventures.de');
+  });
+});